@@ -1,266 +1,297 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { MasterOutput } from './components/WaveLab/MasterOutput';
 import { WaveCard } from './components/WaveLab/WaveCard';
 import { FourierLab } from './components/Fourier/FourierLab';
-import { Wave, COLORS } from './types';
+import { EpicycleLab } from './components/Epicycles/EpicycleLab';
+import { WavImportDialog } from './components/WaveLab/WavImportDialog';
+import { WavExportDialog } from './components/WaveLab/WavExportDialog';
+import { ModulationMatrix } from './components/WaveLab/ModulationMatrix';
+import { AudioMappingDialog } from './components/WaveLab/AudioMappingDialog';
+import { SceneLibraryDialog } from './components/WaveLab/SceneLibraryDialog';
+import { PresetMenu } from './components/WaveLab/PresetMenu';
+import { LessonPlayer } from './components/WaveLab/LessonPlayer';
+import { LessonsDialog } from './components/WaveLab/LessonsDialog';
+import { HarmonicSeriesDialog } from './components/WaveLab/HarmonicSeriesDialog';
+import { DEFAULT_AUDIO_MAPPING } from './utils/pitch';
+import { useHistory } from './hooks/useHistory';
+import { useSceneLibrary } from './hooks/useSceneLibrary';
+import { usePresetLibrary } from './hooks/usePresetLibrary';
+import { DEFAULT_VIEW_CONFIG, loadSession, storeSession } from './utils/scenes';
+import { serializeSceneFile, ParsedSceneFile } from './utils/sceneFile';
+import { encodeShareLink, decodeShareLink, isShareHash, ShareLinkError } from './utils/shareLink';
+import { DRAWING_LENGTH, DEFAULT_HARMONICS } from './utils/math';
+import { presetToWaves, findPreset } from './utils/presets';
+import { stepHighlight } from './utils/lessons';
+import { Wave, AudioMapping, LabDocument, ViewConfig, Scene, Preset, Lesson, AppTab, COLORS } from './types';
+
+// Autosave waits for a pause in editing (e.g. the end of a slider drag)
+const AUTOSAVE_DELAY_MS = 500;
 
 function App() {
-  const [activeTab, setActiveTab] = useState<'interference' | 'fourier'>('interference');
-  const [nextId, setNextId] = useState(3);
+  const [activeTab, setActiveTab] = useState<AppTab>('interference');
   const [isPresetOpen, setIsPresetOpen] = useState(false);
-  
-  const [waves, setWaves] = useState<Wave[]>([
-    { id: 1, freq: 2, amp: 50, phase: 0, color: COLORS[0], muted: false },
-    { id: 2, freq: 3, amp: 30, phase: 0, color: COLORS[1], muted: false }
-  ]);
+  const [isWavImportOpen, setIsWavImportOpen] = useState(false);
+  const [isWavExportOpen, setIsWavExportOpen] = useState(false);
+  const [isModulationOpen, setIsModulationOpen] = useState(false);
+  const [isTuningOpen, setIsTuningOpen] = useState(false);
+  const [audioMapping, setAudioMapping] = useState<AudioMapping>(DEFAULT_AUDIO_MAPPING);
+  const [isSceneLibraryOpen, setIsSceneLibraryOpen] = useState(false);
+  const [isLessonsOpen, setIsLessonsOpen] = useState(false);
+  const [isSeriesOpen, setIsSeriesOpen] = useState(false);
+  const [lessonRun, setLessonRun] = useState<{ lesson: Lesson, step: number } | null>(null);
+
+  // The last session is restored on load and autosaved shortly after every change
+  const [restored] = useState(loadSession);
+  const [view, setView] = useState<ViewConfig>(restored?.view ?? DEFAULT_VIEW_CONFIG);
+  const sceneLibrary = useSceneLibrary();
+  const presetLibrary = usePresetLibrary();
+  const captureRef = useRef<(() => string | null) | null>(null);
+
+  // Result of sharing or opening a link, shown as a banner
+  const [notice, setNotice] = useState<{ type: 'info' | 'error', text: string, link?: string } | null>(null);
+
+  // Layers and the Fourier Lab input cycle (kept here so recordings can be loaded into it from the Wave Lab), with undo history
+  const history = useHistory<LabDocument>(() => restored?.document ?? {
+    waves: [
+      { id: 1, freq: 2, amp: 50, phase: 0, color: COLORS[0], muted: false },
+      { id: 2, freq: 3, amp: 30, phase: 0, color: COLORS[1], muted: false }
+    ],
+    nextId: 3,
+    drawing: new Array(DRAWING_LENGTH).fill(0.5),
+    harmonics: DEFAULT_HARMONICS
+  });
+  const { waves, drawing, harmonics } = history.present;
+
+  useEffect(() => {
+    const timer = setTimeout(() => storeSession({ document: history.present, view }), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [history.present, view]);
+
+  // Opening a share link replaces the lab (undoably). The hash is cleared afterwards so a reload
+  // keeps later edits (autosave) instead of reapplying the link.
+  useEffect(() => {
+    const openLink = () => {
+      const hash = window.location.hash;
+      if (!isShareHash(hash)) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      decodeShareLink(hash)
+        .then(shared => {
+          history.commit(() => shared.document);
+          setView(shared.view);
+          setActiveTab(shared.tab);
+          setNotice({ type: 'info', text: 'Opened a shared configuration. Undo (Ctrl+Z) returns to your previous setup.' });
+        })
+        .catch(e => setNotice({
+          type: 'error',
+          text: e instanceof ShareLinkError ? e.message : 'This link could not be opened in this browser.'
+        }));
+    };
+    openLink();
+    window.addEventListener('hashchange', openLink);
+    return () => window.removeEventListener('hashchange', openLink);
+  }, []);
+
+  const handleShare = async () => {
+    try {
+      const link = await encodeShareLink({ tab: activeTab, document: history.present, view });
+      try {
+        await navigator.clipboard.writeText(link);
+        setNotice({ type: 'info', text: `Link copied to the clipboard (${link.length} characters).`, link });
+      } catch (e) {
+        setNotice({ type: 'info', text: 'Copy this link to share the current setup:', link });
+      }
+    } catch (e) {
+      setNotice({ type: 'error', text: 'Sharing needs a browser with compression support (any current Chrome, Firefox or Safari).' });
+    }
+  };
+
+  const saveScene = (name: string) => {
+    sceneLibrary.saveScene(name, history.present, view, captureRef.current?.() ?? null);
+  };
+
+  const overwriteScene = (id: string) => {
+    sceneLibrary.overwriteScene(id, history.present, view, captureRef.current?.() ?? null);
+  };
+
+  // Loading is an ordinary undoable edit of the layers and drawing
+  const openSetup = (doc: LabDocument, next: ViewConfig) => {
+    history.commit(() => doc);
+    setView(next);
+    setIsSceneLibraryOpen(false);
+    setActiveTab('interference');
+  };
+
+  const loadScene = (scene: Scene) => openSetup(scene.document, scene.view);
+
+  // A scene file opens like a library scene; anything the validator repaired is listed in the banner
+  const importSceneFile = (file: ParsedSceneFile) => {
+    openSetup(file.document, file.view);
+    setNotice(file.issues.length
+      ? { type: 'error', text: `Opened "${file.name}" with repairs: ${file.issues.join(' ')}` }
+      : { type: 'info', text: `Opened "${file.name}". Save it to keep it in the library.` });
+  };
+
+  const exportSceneFile = (name: string) => {
+    const blob = new Blob([serializeSceneFile(history.present, view, name)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[^\w-]+/g, '-').toLowerCase() || 'scene'}.frequency-canvas.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Replaces the whole layer stack; ids continue after the highest one in it
+  const replaceWaves = (newWaves: Wave[]) => {
+    const maxId = newWaves.reduce((max, w) => Math.max(max, w.id), 0);
+    history.commit(doc => ({ ...doc, waves: newWaves, nextId: maxId + 1 }));
+  };
 
   const addWave = (partial?: Partial<Wave>) => {
-    const color = COLORS[(nextId - 1) % COLORS.length];
-    setWaves(prev => [
-      ...prev, 
-      { id: nextId, freq: 2, amp: 50, phase: 0, color, muted: false, ...partial }
-    ]);
-    setNextId(n => n + 1);
+    history.commit(doc => ({
+      ...doc,
+      waves: [
+        ...doc.waves,
+        { id: doc.nextId, freq: 2, amp: 50, phase: 0, color: COLORS[(doc.nextId - 1) % COLORS.length], muted: false, ...partial }
+      ],
+      nextId: doc.nextId + 1
+    }));
+  };
+
+  // Adds generated layers after the current ones, renumbered (and recolored) from the id counter
+  const appendWaves = (newWaves: Wave[]) => {
+    history.commit(doc => ({
+      ...doc,
+      waves: [
+        ...doc.waves,
+        ...newWaves.map((w, i) => ({ ...w, id: doc.nextId + i, color: COLORS[(doc.nextId + i - 1) % COLORS.length] }))
+      ],
+      nextId: doc.nextId + newWaves.length
+    }));
   };
 
   const removeWave = (id: number) => {
-    setWaves(prev => prev.filter(w => w.id !== id));
+    // Drop any modulation routes the removed layer was driving
+    history.commit(doc => ({
+      ...doc,
+      waves: doc.waves
+        .filter(w => w.id !== id)
+        .map(w => w.modulators?.some(m => m.source === id)
+          ? { ...w, modulators: w.modulators.filter(m => m.source !== id) }
+          : w)
+    }));
+  };
+
+  // One undo step for all the listed layer changes (e.g. moving a modulation route between layers).
+  // Continuous input (a slider drag) coalesces per layer and field.
+  const updateWaves = (changes: { id: number, updates: Partial<Wave> }[], continuous: boolean = false) => {
+    history.commit(
+      doc => ({
+        ...doc,
+        waves: doc.waves.map(w => changes.reduce((wave, c) => c.id === w.id ? { ...wave, ...c.updates } : wave, w))
+      }),
+      continuous ? `waves:${changes.map(c => `${c.id}:${Object.keys(c.updates).sort().join(',')}`).join(';')}` : undefined
+    );
   };
 
-  const updateWave = (id: number, updates: Partial<Wave>) => {
-    setWaves(prev => prev.map(w => w.id === id ? { ...w, ...updates } : w));
+  const updateWave = (id: number, updates: Partial<Wave>, continuous: boolean = false) => {
+    updateWaves([{ id, updates }], continuous);
   };
 
   const addCounterWave = (targetId: number) => {
-    const target = waves.find(w => w.id === targetId);
-    if (!target) return;
-    
-    const color = COLORS[(nextId - 1) % COLORS.length];
-    setWaves(prev => [
-      ...prev,
-      { 
-        id: nextId, 
-        freq: target.freq, 
-        amp: target.amp, 
-        phase: (target.phase + 180) % 360, 
-        color,
-        muted: false
-      }
-    ]);
-    setNextId(n => n + 1);
+    history.commit(doc => {
+      const target = doc.waves.find(w => w.id === targetId);
+      if (!target) return doc;
+      return {
+        ...doc,
+        waves: [
+          ...doc.waves,
+          {
+            id: doc.nextId,
+            freq: target.freq,
+            amp: target.amp,
+            phase: (target.phase + 180) % 360,
+            color: COLORS[(doc.nextId - 1) % COLORS.length],
+            muted: false,
+            shape: target.shape,
+            harmonics: target.harmonics,
+            envelope: target.envelope
+          }
+        ],
+        nextId: doc.nextId + 1
+      };
+    });
+  };
+
+  // Strokes coalesce until the canvas reports the stroke boundary
+  const handleDrawingChange = (next: number[], continuous: boolean = false) => {
+    history.commit(doc => ({ ...doc, drawing: next }), continuous ? 'drawing' : undefined);
+  };
+
+  const handleHarmonicsChange = (next: number, continuous: boolean = false) => {
+    history.commit(doc => ({ ...doc, harmonics: next }), continuous ? 'harmonics' : undefined);
   };
 
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y). Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range' && (target as HTMLInputElement).type !== 'checkbox'))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
   const handleImportFromFourier = (newWaves: Wave[]) => {
-      setWaves(newWaves);
-      // Ensure the next ID generator is higher than the max ID we just imported
-      const maxId = newWaves.reduce((max, w) => Math.max(max, w.id), 0);
-      setNextId(maxId + 1);
+      replaceWaves(newWaves);
       setActiveTab('interference');
   };
 
-  // --- PHYSICS PRESETS ---
-  const applyPreset = (type: string) => {
-    // Reset ID counter for cleaner look on presets
-    let tempId = 1;
-    const newWaves: Wave[] = [];
-
-    const create = (f: number, a: number, p: number) => {
-        newWaves.push({
-            id: tempId,
-            freq: f,
-            amp: a,
-            phase: p,
-            color: COLORS[(tempId - 1) % COLORS.length],
-            muted: false
-        });
-        tempId++;
-    };
+  const handleImportRecording = (newWaves: Wave[]) => {
+      handleImportFromFourier(newWaves);
+      setIsWavImportOpen(false);
+  };
 
-    switch(type) {
-        // --- WAVE PHYSICS ---
-        case 'harmonic_series':
-            // Fundamental + Integer Harmonics (1f, 2f, 3f...)
-            create(2, 60, 0);
-            create(4, 30, 0);
-            create(6, 20, 0);
-            create(8, 15, 0);
-            create(10, 12, 0);
-            create(12, 10, 0);
-            break;
-        case 'beats':
-            // Binaural Beats: ~4Hz diff.
-            create(10, 50, 0);
-            create(10.2, 50, 0); 
-            break;
-        case 'fast_beats':
-            // "Roughness": 30Hz diff creates a harsh buzz.
-            create(10, 50, 0);
-            create(11.5, 50, 0); 
-            break;
-        case 'dial_tone':
-            // North American Dial Tone (350Hz + 440Hz). Scaled down /100.
-            create(3.5, 50, 0);
-            create(4.4, 50, 0);
-            break;
-        case 'standing':
-            // Standing Wave: Equal freq, opposite direction (here visualized as phase opp).
-            create(5, 50, 0);
-            create(5, 50, 180);
-            break;
-        case 'wifi':
-            // OFDM (Orthogonal Frequency Division Multiplexing)
-            // Closely spaced carriers that don't interfere at their peak center frequencies
-            create(3, 40, 0);
-            create(4, 40, 0);
-            create(5, 40, 0);
-            create(6, 40, 0);
-            create(7, 40, 0);
-            break;
-        case 'am_synth':
-            // AM Synthesis: Carrier (10) + Sidebands (8, 12).
-            create(8, 25, 0);
-            create(10, 50, 0);
-            create(12, 25, 0);
-            break;
-        case 'fm_approx':
-            // Narrowband FM Approximation: Carrier + Sidebands with specific phases.
-            // C=10, M=1. Sidebands at 9, 11, 8, 12...
-            create(10, 50, 0);
-            create(11, 30, 0);
-            create(9, 30, 180); // Phase flipped
-            create(12, 10, 0);
-            create(8, 10, 0);
-            break;
-
-        // --- SYNTHESIS & TIMBRE ---
-        case 'square_approx':
-            // Square: Odd harmonics (f, 3f, 5f) at 1/n amp.
-            create(4, 60, 0);
-            create(12, 20, 0);
-            create(20, 12, 0);
-            create(28, 8, 0);
-            break;
-        case 'triangle_approx':
-            // Triangle: Odd harmonics (f, 3f, 5f) at 1/n^2 amp, alternating phase.
-            create(4, 60, 0);
-            create(12, 6.6, 180); // 1/9th amp, flipped
-            create(20, 2.4, 0);   // 1/25th amp
-            break;
-        case 'saw_approx':
-            // Sawtooth: All integer harmonics (f, 2f, 3f...) at 1/n amp.
-            create(4, 60, 0);
-            create(8, 30, 0);
-            create(12, 20, 0);
-            create(16, 15, 0);
-            create(20, 12, 0);
-            break;
-
-        // --- MUSIC & PSYCHOACOUSTICS ---
-        case 'pentatonic':
-            // Major Pentatonic Scale (Just Intonation)
-            create(4, 40, 0);   // Root
-            create(4.5, 30, 0); // 9/8 (Major Second)
-            create(5, 30, 0);   // 5/4 (Major Third)
-            create(6, 30, 0);   // 3/2 (Perfect Fifth)
-            create(6.66, 30, 0);// 5/3 (Major Sixth)
-            break;
-        case 'octaves':
-            // Octaves: 1:2:4
-            create(4, 50, 0);
-            create(8, 25, 0);
-            create(16, 12, 0);
-            break;
-        case 'fifth':
-            // Perfect Fifth: 2:3 ratio (Very consonant).
-            create(6, 50, 0);
-            create(9, 50, 0);
-            break;
-        case 'major':
-            // Major Triad (Just Intonation): 4:5:6.
-            create(8, 40, 0);
-            create(10, 30, 0);
-            create(12, 30, 0);
-            break;
-        case 'minor':
-            // Minor Triad (Just Intonation): 10:12:15.
-            create(10, 40, 0);
-            create(12, 30, 0);
-            create(15, 30, 0);
-            break;
-        case 'maj7':
-            // Major 7th Chord: 8:10:12:15.
-            create(8, 40, 0);
-            create(10, 30, 0);
-            create(12, 30, 0);
-            create(15, 30, 0);
-            break;
-        case 'cluster':
-            // Tone Cluster: Frequencies very close together.
-            create(10, 25, 0);
-            create(10.5, 25, 0);
-            create(11, 25, 0);
-            create(11.5, 25, 0);
-            break;
-        case 'missing_fund':
-            // Missing Fundamental: 200, 300, 400Hz. Brain hears 100Hz.
-            // Using 5, 7.5, 10 relative here (Fund=2.5).
-            create(5, 33, 0);
-            create(7.5, 33, 0);
-            create(10, 33, 0);
-            break;
-        case 'golden':
-            // Golden Ratio (Phi) Dissonance.
-            create(8, 50, 0);
-            create(8 * 1.618, 50, 0);
-            break;
-
-        // --- 2D VISUAL MATH ---
-        case 'fibonacci':
-            // Fibonacci Sequence (1, 2, 3, 5, 8)
-            create(1, 60, 0);
-            create(2, 50, 0);
-            create(3, 40, 0);
-            create(5, 30, 0);
-            create(8, 20, 0);
-            break;
-        case 'lissajous_circle':
-            // 1:1, 90 deg.
-            create(5, 50, 0);
-            create(5, 50, 90);
-            break;
-        case 'lissajous_knot':
-            // 3:2, 90 deg (The "Fifth" Knot).
-            create(3, 50, 0);
-            create(2, 50, 90); 
-            break;
-        case 'lissajous_8':
-            // 1:2, 90 deg (Figure 8).
-            create(6, 50, 90);
-            create(3, 50, 0);
-            break;
-        case 'lissajous_complex':
-            // 3:4 ratio.
-            create(3, 50, 0);
-            create(4, 50, 90);
-            break;
-        case 'lissajous_crown':
-            // 5:4 ratio.
-            create(5, 50, 0);
-            create(4, 50, 90);
-            break;
-        case 'cymatics':
-            // Odd ratios create complex interference grids on the plate.
-            create(3, 50, 0);
-            create(5, 50, 0);
-            create(7, 30, 0);
-            break;
-    }
-    
-    setWaves(newWaves);
-    setNextId(tempId);
+  const handleImportCycle = (cycle: number[]) => {
+      history.commit(doc => ({ ...doc, drawing: cycle }));
+      setIsWavImportOpen(false);
+      setActiveTab('fourier');
+  };
+
+  // Presets replace the stack and switch the visualizer to the view they're best seen in
+  const applyPreset = (preset: Preset) => {
+    replaceWaves(presetToWaves(preset));
+    setView(v => ({ ...v, mode: preset.view }));
     setIsPresetOpen(false);
   };
 
+  // Each lesson step loads its preset (if any) and view; steps without one continue with the student's layers
+  const goToLessonStep = (lesson: Lesson, index: number) => {
+    const step = lesson.steps[index];
+    const preset = step.preset ? findPreset(step.preset, presetLibrary.userPresets) : undefined;
+    if (preset) replaceWaves(presetToWaves(preset));
+    const mode = step.view ?? preset?.view;
+    if (mode) setView(v => ({ ...v, mode }));
+    setLessonRun({ lesson, step: index });
+    setIsLessonsOpen(false);
+    setActiveTab('interference');
+  };
+
+  const lessonHighlight = lessonRun ? stepHighlight(lessonRun.lesson.steps[lessonRun.step]) : undefined;
+
+  const savePreset = (title: string, category: string, description: string) => {
+    presetLibrary.savePreset(title, category, description, waves, view.mode);
+  };
+
   return (
     <div className="flex flex-col min-h-screen font-sans text-gray-800 bg-gray-50/50">
       {/* Header */}
@@ -275,6 +306,38 @@ function App() {
                 <h1 className="text-xl font-bold tracking-tight text-gray-900">Frequency Canvas</h1>
             </div>
             
+            <div className="flex items-center gap-3">
+            <div className="flex gap-1">
+                <button
+                    onClick={handleShare}
+                    title="Copy a link to the current setup"
+                    className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                    </svg>
+                </button>
+                <button
+                    onClick={history.undo}
+                    disabled={!history.canUndo}
+                    title="Undo (Ctrl+Z)"
+                    className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" />
+                    </svg>
+                </button>
+                <button
+                    onClick={history.redo}
+                    disabled={!history.canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 10H11a5 5 0 00-5 5v2M21 10l-5-5M21 10l-5 5" />
+                    </svg>
+                </button>
+            </div>
             <nav className="flex p-1 space-x-1 bg-gray-100/80 rounded-xl">
                 <button
                     onClick={() => setActiveTab('interference')}
@@ -296,20 +359,66 @@ function App() {
                 >
                     Fourier Drawing
                 </button>
+                <button
+                    onClick={() => setActiveTab('epicycles')}
+                    className={`px-4 py-2 text-sm font-medium rounded-lg transition-all ${
+                        activeTab === 'epicycles' 
+                        ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5' 
+                        : 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                    }`}
+                >
+                    Epicycles
+                </button>
             </nav>
+            </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 flex flex-col w-full max-w-5xl mx-auto">
+        {notice && (
+          <div className={`mx-4 sm:mx-6 mt-4 flex items-start gap-3 px-4 py-3 rounded-lg border text-sm animate-fade-in ${
+            notice.type === 'error' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-indigo-50 border-indigo-100 text-indigo-800'
+          }`}>
+            <div className="flex-1 min-w-0 space-y-2">
+              <p>{notice.text}</p>
+              {notice.link && (
+                <input
+                  readOnly
+                  value={notice.link}
+                  onFocus={(e) => e.currentTarget.select()}
+                  className="w-full text-xs font-mono text-gray-600 bg-white border border-indigo-100 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+              )}
+            </div>
+            <button onClick={() => setNotice(null)} title="Dismiss" className="opacity-60 hover:opacity-100 p-0.5">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        )}
         
         {activeTab === 'interference' ? (
           <>
             {/* Visualizer Section (Resizable, Flow layout) */}
             <div className="flex-none p-4 sm:px-6 pb-2 animate-fade-in z-20">
-                <MasterOutput waves={waves} />
+                <MasterOutput waves={waves} audioMapping={audioMapping} view={view} onViewChange={setView} captureRef={captureRef} />
             </div>
 
+            {lessonRun && (
+                <div className="flex-none px-4 sm:px-6 pb-2">
+                    <LessonPlayer
+                        key={`${lessonRun.lesson.id}:${lessonRun.step}`}
+                        lesson={lessonRun.lesson}
+                        stepIndex={lessonRun.step}
+                        waves={waves}
+                        onStep={(index) => goToLessonStep(lessonRun.lesson, index)}
+                        onExit={() => setLessonRun(null)}
+                    />
+                </div>
+            )}
+
             {/* Scrollable List Section */}
             {/* max-h-[700px] ensures it scrolls internally if > ~3 rows, but also allows page scroll if visualizer is huge */}
             <div className="flex-1 overflow-y-auto p-4 sm:px-6 pt-2 animate-fade-in space-y-6 max-h-[700px] border-b border-gray-200/50 mb-2">
@@ -329,101 +438,61 @@ function App() {
                             </button>
                             {/* Dropdown */}
                             {isPresetOpen && (
-                                <div className="absolute right-0 mt-1 w-64 bg-white rounded-lg shadow-xl border border-gray-100 overflow-hidden z-20 animate-fade-in max-h-96 overflow-y-auto">
-                                    {/* Presets Content Omitted for Brevity - Same as previous */}
-                                    {/* WAVE PHYSICS */}
-                                    <div className="px-3 py-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider bg-gray-50">Wave Physics</div>
-                                    <button onClick={() => applyPreset('harmonic_series')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Harmonic Series (Integer Multiples)
-                                    </button>
-                                    <button onClick={() => applyPreset('beats')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Binaural Beats (Slow)
-                                    </button>
-                                    <button onClick={() => applyPreset('fast_beats')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Roughness (Fast Beats)
-                                    </button>
-                                    <button onClick={() => applyPreset('standing')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-red-50 hover:text-red-700 border-l-2 border-transparent hover:border-red-500">
-                                        Standing Wave (Cancellation)
-                                    </button>
-                                    <button onClick={() => applyPreset('dial_tone')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Telephone Dial Tone
-                                    </button>
-                                    <button onClick={() => applyPreset('wifi')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        OFDM / Wi-Fi Signal
-                                    </button>
-                                    <button onClick={() => applyPreset('am_synth')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        AM Synthesis (Sidebands)
-                                    </button>
-                                    <button onClick={() => applyPreset('fm_approx')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        FM Synthesis (Approx)
-                                    </button>
-
-                                    {/* SYNTHESIS */}
-                                    <div className="px-3 py-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider bg-gray-50 border-t border-gray-100">Synthesis & Timbre</div>
-                                    <button onClick={() => applyPreset('square_approx')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Square Wave (Odd Harmonics)
-                                    </button>
-                                    <button onClick={() => applyPreset('triangle_approx')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Triangle Wave (Soft Odd)
-                                    </button>
-                                    <button onClick={() => applyPreset('saw_approx')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Sawtooth Wave (All Harmonics)
-                                    </button>
-
-                                    {/* MUSIC & PSYCHOACOUSTICS */}
-                                    <div className="px-3 py-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider bg-gray-50 border-t border-gray-100">Music & Psychoacoustics</div>
-                                    <button onClick={() => applyPreset('pentatonic')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Pentatonic Scale
-                                    </button>
-                                    <button onClick={() => applyPreset('major')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Major Triad (4:5:6)
-                                    </button>
-                                    <button onClick={() => applyPreset('minor')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Minor Triad (10:12:15)
-                                    </button>
-                                    <button onClick={() => applyPreset('maj7')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Major 7th Chord
-                                    </button>
-                                    <button onClick={() => applyPreset('cluster')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Tone Cluster (Dissonant)
-                                    </button>
-                                    <button onClick={() => applyPreset('missing_fund')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-purple-50 hover:text-purple-700 border-l-2 border-transparent hover:border-purple-500">
-                                        Missing Fundamental (Phantom Tone)
-                                    </button>
-                                    <button onClick={() => applyPreset('octaves')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 border-l-2 border-transparent hover:border-indigo-500">
-                                        Octave Stack (1:2:4)
-                                    </button>
-                                    <button onClick={() => applyPreset('golden')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-yellow-50 hover:text-yellow-700 border-l-2 border-transparent hover:border-yellow-500">
-                                        Golden Ratio (Phi)
-                                    </button>
-
-                                    {/* 2D MATH */}
-                                    <div className="px-3 py-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider bg-gray-50 border-t border-gray-100">2D Visual Math</div>
-                                    <button onClick={() => applyPreset('fibonacci')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-green-50 hover:text-green-700 border-l-2 border-transparent hover:border-green-500">
-                                        Fibonacci Sequence
-                                    </button>
-                                    <button onClick={() => applyPreset('lissajous_circle')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-pink-50 hover:text-pink-700 border-l-2 border-transparent hover:border-pink-500">
-                                        Lissajous Circle (1:1)
-                                    </button>
-                                    <button onClick={() => applyPreset('lissajous_knot')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-pink-50 hover:text-pink-700 border-l-2 border-transparent hover:border-pink-500">
-                                        Lissajous Knot (3:2)
-                                    </button>
-                                    <button onClick={() => applyPreset('lissajous_8')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-pink-50 hover:text-pink-700 border-l-2 border-transparent hover:border-pink-500">
-                                        Lissajous Figure 8 (1:2)
-                                    </button>
-                                    <button onClick={() => applyPreset('lissajous_complex')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-pink-50 hover:text-pink-700 border-l-2 border-transparent hover:border-pink-500">
-                                        Complex Knot (3:4)
-                                    </button>
-                                    <button onClick={() => applyPreset('lissajous_crown')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-pink-50 hover:text-pink-700 border-l-2 border-transparent hover:border-pink-500">
-                                        The Crown (5:4)
-                                    </button>
-                                    <button onClick={() => applyPreset('cymatics')} className="block w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-amber-50 hover:text-amber-700 border-l-2 border-transparent hover:border-amber-500">
-                                        Cymatics (Chladni Plate)
-                                    </button>
-                                </div>
+                                <PresetMenu
+                                    userPresets={presetLibrary.userPresets}
+                                    error={presetLibrary.error}
+                                    onApply={applyPreset}
+                                    onSave={savePreset}
+                                    onDelete={presetLibrary.deletePreset}
+                                />
                             )}
                         </div>
 
+                        <button
+                            onClick={() => setIsLessonsOpen(true)}
+                            className="px-3 py-2 bg-white border border-gray-200 hover:border-amber-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all"
+                        >
+                            Lessons
+                        </button>
+                        <button
+                            onClick={() => setIsSceneLibraryOpen(true)}
+                            className="px-3 py-2 bg-white border border-gray-200 hover:border-indigo-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all"
+                        >
+                            Scenes
+                        </button>
+                        <button
+                            onClick={() => setIsModulationOpen(!isModulationOpen)}
+                            className={`px-3 py-2 bg-white border ${isModulationOpen ? 'border-indigo-500 ring-2 ring-indigo-500/20' : 'border-gray-200 hover:border-indigo-300'} text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all`}
+                        >
+                            Modulation
+                        </button>
+                        <button
+                            onClick={() => setIsTuningOpen(true)}
+                            title="Audio pitch mapping and tuning"
+                            className="px-3 py-2 bg-white border border-gray-200 hover:border-indigo-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all"
+                        >
+                            Tuning
+                        </button>
+                        <button
+                            onClick={() => setIsSeriesOpen(true)}
+                            title="Generate a harmonic series"
+                            className="px-3 py-2 bg-white border border-gray-200 hover:border-indigo-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all"
+                        >
+                            Series
+                        </button>
+                        <button
+                            onClick={() => setIsWavImportOpen(true)}
+                            className="px-3 py-2 bg-white border border-gray-200 hover:border-indigo-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all"
+                        >
+                            Import WAV
+                        </button>
+                        <button
+                            onClick={() => setIsWavExportOpen(true)}
+                            className="px-3 py-2 bg-white border border-gray-200 hover:border-indigo-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all"
+                        >
+                            Export WAV
+                        </button>
+
                         <button 
                             onClick={() => addWave()} 
                             className="inline-flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium shadow-sm transition-colors active:scale-95"
@@ -436,27 +505,82 @@ function App() {
                     </div>
                 </div>
 
+                {isModulationOpen && (
+                    <ModulationMatrix waves={waves} onChange={updateWaves} onClose={() => setIsModulationOpen(false)} />
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pb-8">
                     {waves.map((wave) => (
                         <WaveCard 
                             key={wave.id} 
                             wave={wave} 
+                            audioMapping={audioMapping}
                             onChange={updateWave} 
                             onRemove={removeWave}
                             onCounter={addCounterWave}
                             isRemovable={waves.length > 1}
+                            highlight={lessonHighlight?.layer === wave.id ? lessonHighlight.control : undefined}
                         />
                     ))}
                 </div>
             </div>
           </>
+        ) : activeTab === 'fourier' ? (
+          <div className="flex-1 overflow-y-auto p-4 sm:px-6">
+             <FourierLab drawing={drawing} onDrawingChange={handleDrawingChange} harmonics={harmonics} onHarmonicsChange={handleHarmonicsChange} onStrokeBoundary={history.checkpoint} onExportToLab={handleImportFromFourier} />
+          </div>
         ) : (
           <div className="flex-1 overflow-y-auto p-4 sm:px-6">
-             <FourierLab onExportToLab={handleImportFromFourier} />
+             <EpicycleLab />
           </div>
         )}
 
       </main>
+
+      {isSeriesOpen && (
+        <HarmonicSeriesDialog
+          onClose={() => setIsSeriesOpen(false)}
+          onReplace={(newWaves) => { replaceWaves(newWaves); setIsSeriesOpen(false); }}
+          onAppend={(newWaves) => { appendWaves(newWaves); setIsSeriesOpen(false); }}
+        />
+      )}
+
+      {isWavImportOpen && (
+        <WavImportDialog
+          audioMapping={audioMapping}
+          onClose={() => setIsWavImportOpen(false)}
+          onImportLayers={handleImportRecording}
+          onImportCycle={handleImportCycle}
+        />
+      )}
+
+      {isSceneLibraryOpen && (
+        <SceneLibraryDialog
+          scenes={sceneLibrary.scenes}
+          error={sceneLibrary.error}
+          onSave={saveScene}
+          onOverwrite={overwriteScene}
+          onLoad={loadScene}
+          onRename={sceneLibrary.renameScene}
+          onDuplicate={sceneLibrary.duplicateScene}
+          onDelete={sceneLibrary.deleteScene}
+          onImportFile={importSceneFile}
+          onExportFile={exportSceneFile}
+          onClose={() => setIsSceneLibraryOpen(false)}
+        />
+      )}
+
+      {isLessonsOpen && (
+        <LessonsDialog onStart={(lesson) => goToLessonStep(lesson, 0)} onClose={() => setIsLessonsOpen(false)} />
+      )}
+
+      {isTuningOpen && (
+        <AudioMappingDialog mapping={audioMapping} onChange={setAudioMapping} onClose={() => setIsTuningOpen(false)} />
+      )}
+
+      {isWavExportOpen && (
+        <WavExportDialog waves={waves} audioMapping={audioMapping} onClose={() => setIsWavExportOpen(false)} />
+      )}
       
       {/* Footer */}
       <footer className="flex-none py-6 text-center text-xs text-gray-400 bg-white border-t border-gray-200">
@@ -0,0 +1,217 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { PathCanvas } from './PathCanvas';
+import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
+import { RangeSlider } from '../ui/RangeSlider';
+import { Point2D } from '../../types';
+import {
+    EpicycleSort, resampleByArcLength, computeEpicycles, sortEpicycles, epicycleOrigin, epicycleChain, generatePresetPath
+} from '../../utils/epicycles';
+
+// Number of arc-length samples (and therefore of available circles)
+const PATH_SAMPLES = 256;
+// Seconds per full trip around the shape at 1x speed
+const CYCLE_SECONDS = 10;
+
+export const EpicycleLab: React.FC = () => {
+    const [path, setPath] = useState<Point2D[]>(() => generatePresetPath('heart'));
+    const [termCount, setTermCount] = useState<number>(40);
+    const [sort, setSort] = useState<EpicycleSort>('size');
+    const [speed, setSpeed] = useState<number>(1);
+    const [showCircles, setShowCircles] = useState<boolean>(true);
+
+    const samples = useMemo(() => resampleByArcLength(path, PATH_SAMPLES), [path]);
+    const terms = useMemo(() => computeEpicycles(samples), [samples]);
+    const origin = useMemo(() => epicycleOrigin(terms), [terms]);
+    const rotating = useMemo(
+        () => sortEpicycles(terms.filter(t => t.freq !== 0), sort).slice(0, termCount),
+        [terms, sort, termCount]
+    );
+
+    // Animation state lives in refs so the loop doesn't restart on every change
+    const cycleRef = useRef(0);
+    const trailRef = useRef<{ x: number, y: number, cycle: number }[]>([]);
+
+    // A different set of circles traces a different curve, so the old trail is meaningless
+    useEffect(() => {
+        trailRef.current = [];
+    }, [rotating]);
+
+    const canvasRef = useCanvasAnimation((ctx, _time, deltaTime, width, height) => {
+        ctx.clearRect(0, 0, width, height);
+        if (samples.length === 0) return;
+
+        // Same square framing as the input canvas
+        const size = Math.min(width, height) * 0.9;
+        const left = (width - size) / 2;
+        const top = (height - size) / 2;
+        const toScreen = (p: Point2D) => ({ x: left + p.x * size, y: top + p.y * size });
+
+        cycleRef.current += (deltaTime * speed) / CYCLE_SECONDS;
+        const cycle = cycleRef.current;
+        const t = cycle % 1;
+
+        // Ghost of the target path
+        ctx.beginPath();
+        ctx.strokeStyle = 'rgba(200, 200, 200, 0.15)';
+        ctx.lineWidth = 4;
+        samples.forEach((p, i) => {
+            const s = toScreen(p);
+            if (i === 0) ctx.moveTo(s.x, s.y);
+            else ctx.lineTo(s.x, s.y);
+        });
+        ctx.closePath();
+        ctx.stroke();
+
+        const joints = epicycleChain(rotating, t, origin).map(toScreen);
+
+        // Circles + arms
+        if (showCircles) {
+            ctx.lineWidth = 1;
+            for (let i = 0; i < rotating.length; i++) {
+                const center = joints[i];
+                const radius = rotating[i].amp * size;
+                if (radius < 0.5) continue;
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+                ctx.beginPath();
+                ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+                ctx.stroke();
+            }
+
+            ctx.strokeStyle = 'rgba(165, 180, 252, 0.7)'; // Indigo 300
+            ctx.beginPath();
+            joints.forEach((j, i) => {
+                if (i === 0) ctx.moveTo(j.x, j.y);
+                else ctx.lineTo(j.x, j.y);
+            });
+            ctx.stroke();
+        }
+
+        // Fading trail: keep one cycle of history, older points fade out
+        const pen = joints[joints.length - 1];
+        const trail = trailRef.current;
+        trail.push({ x: pen.x, y: pen.y, cycle });
+        while (trail.length > 0 && cycle - trail[0].cycle > 1) trail.shift();
+
+        ctx.lineWidth = 3;
+        ctx.lineCap = 'round';
+        for (let i = 1; i < trail.length; i++) {
+            const age = cycle - trail[i].cycle;
+            ctx.strokeStyle = `rgba(99, 102, 241, ${Math.max(0, 1 - age)})`; // Indigo 500
+            ctx.beginPath();
+            ctx.moveTo(trail[i - 1].x, trail[i - 1].y);
+            ctx.lineTo(trail[i].x, trail[i].y);
+            ctx.stroke();
+        }
+
+        // Pen tip
+        ctx.fillStyle = '#F472B6';
+        ctx.beginPath();
+        ctx.arc(pen.x, pen.y, 4, 0, Math.PI * 2);
+        ctx.fill();
+    }, [samples, rotating]);
+
+    const maxTerms = Math.max(1, terms.length - 1);
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <div className="mb-6 flex flex-col md:flex-row md:items-end justify-between gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Fourier Epicycles</h2>
+                        <p className="text-gray-500 text-sm max-w-lg mt-1">
+                            Draw any closed shape. Its complex Fourier series becomes a chain of spinning circles whose tip retraces your drawing.
+                        </p>
+                    </div>
+                    <div className="flex space-x-2 bg-gray-50 p-1 rounded-lg">
+                        {(['circle', 'star', 'heart'] as const).map(type => (
+                            <button
+                                key={type}
+                                onClick={() => setPath(generatePresetPath(type))}
+                                className="px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-white hover:shadow-sm rounded-md transition-all capitalize"
+                            >
+                                {type}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => setPath([])}
+                            className="px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 rounded-md transition-all"
+                        >
+                            Reset
+                        </button>
+                    </div>
+                </div>
+
+                <div className="grid lg:grid-cols-2 gap-8">
+                    {/* Path Input */}
+                    <div className="space-y-2">
+                        <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Closed Path (Draw Here)</label>
+                        <PathCanvas path={path} onChange={setPath} />
+                    </div>
+
+                    {/* Epicycles */}
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-end">
+                            <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Epicycles</label>
+                            <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer select-none hover:text-indigo-600 transition-colors">
+                                <input
+                                    type="checkbox"
+                                    checked={showCircles}
+                                    onChange={(e) => setShowCircles(e.target.checked)}
+                                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 w-4 h-4 cursor-pointer"
+                                />
+                                Show Circles
+                            </label>
+                        </div>
+                        <div className="h-64 md:h-80 w-full bg-gray-900 rounded-lg border border-gray-800 shadow-inner overflow-hidden relative">
+                            <canvas ref={canvasRef} className="w-full h-full block" />
+                            <div className="absolute top-4 right-4 bg-black/50 backdrop-blur text-white text-xs px-2 py-1 rounded font-mono pointer-events-none">
+                                {rotating.length} circles
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Controls */}
+                <div className="mt-8 p-6 bg-indigo-50 rounded-xl border border-indigo-100 flex flex-col md:flex-row gap-8 items-end">
+                    <div className="flex-1 w-full">
+                        <RangeSlider
+                            label="Number of Circles"
+                            min={1}
+                            max={maxTerms}
+                            step={1}
+                            value={Math.min(termCount, maxTerms)}
+                            onChange={(e) => setTermCount(parseInt(e.target.value))}
+                        />
+                        <p className="text-xs text-indigo-600/80 mt-3">
+                            Circles come in pairs spinning both ways (positive and negative frequencies). A handful already captures the outline; sharp corners need many.
+                        </p>
+                    </div>
+                    <div className="w-full md:w-48">
+                        <RangeSlider
+                            label="Speed"
+                            min={0}
+                            max={4}
+                            step={0.1}
+                            value={speed}
+                            onChange={(e) => setSpeed(parseFloat(e.target.value))}
+                        />
+                    </div>
+                    <div className="flex-shrink-0">
+                        <span className="block text-xs text-gray-500 font-medium mb-1">Order Circles By</span>
+                        <div className="flex bg-white/70 p-0.5 rounded-lg border border-indigo-100">
+                            {(['size', 'frequency'] as const).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setSort(option)}
+                                    className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all capitalize ${sort === option ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-600 hover:text-indigo-700'}`}
+                                >
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
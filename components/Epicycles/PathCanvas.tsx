@@ -0,0 +1,159 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Point2D } from '../../types';
+
+interface PathCanvasProps {
+    path: Point2D[];
+    onChange: (newPath: Point2D[]) => void;
+}
+
+// Freehand input for a closed 2D path. Coordinates are normalized to a 0-1 square.
+export const PathCanvas: React.FC<PathCanvasProps> = ({ path, onChange }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [stroke, setStroke] = useState<Point2D[] | null>(null);
+
+    // Square drawing area centered in the canvas
+    const getFrame = (w: number, h: number) => {
+        const size = Math.min(w, h) * 0.9;
+        return { size, left: (w - size) / 2, top: (h - size) / 2 };
+    };
+
+    const draw = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const rect = canvas.getBoundingClientRect();
+        const w = rect.width;
+        const h = rect.height;
+        const { size, left, top } = getFrame(w, h);
+        ctx.clearRect(0, 0, w, h);
+
+        // Grid background
+        ctx.strokeStyle = 'rgba(0,0,0,0.05)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let i = 0; i <= 10; i++) {
+            const p = (i / 10) * size;
+            ctx.moveTo(left + p, top); ctx.lineTo(left + p, top + size);
+            ctx.moveTo(left, top + p); ctx.lineTo(left + size, top + p);
+        }
+        ctx.stroke();
+
+        const points = stroke ?? path;
+        if (points.length < 2) return;
+
+        ctx.strokeStyle = '#4338ca'; // Indigo 700
+        ctx.lineWidth = 3;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        points.forEach((p, i) => {
+            const x = left + p.x * size;
+            const y = top + p.y * size;
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+
+        // Closing segment, the transform treats the path as a loop
+        const first = points[0];
+        const last = points[points.length - 1];
+        ctx.setLineDash([4, 6]);
+        ctx.strokeStyle = 'rgba(67, 56, 202, 0.4)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(left + last.x * size, top + last.y * size);
+        ctx.lineTo(left + first.x * size, top + first.y * size);
+        ctx.stroke();
+        ctx.setLineDash([]);
+    };
+
+    // Initial Draw & Resize
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const container = containerRef.current;
+        if (!canvas || !container) return;
+
+        const resize = () => {
+            const rect = container.getBoundingClientRect();
+            // Handle high-DPI displays for crisp rendering
+            const dpr = window.devicePixelRatio || 1;
+            canvas.width = rect.width * dpr;
+            canvas.height = rect.height * dpr;
+
+            const ctx = canvas.getContext('2d');
+            if (ctx) ctx.scale(dpr, dpr);
+
+            canvas.style.width = `${rect.width}px`;
+            canvas.style.height = `${rect.height}px`;
+
+            draw();
+        };
+
+        window.addEventListener('resize', resize);
+        resize();
+
+        return () => window.removeEventListener('resize', resize);
+    }, [path, stroke]);
+
+    const toNormalized = (clientX: number, clientY: number): Point2D | null => {
+        const canvas = canvasRef.current;
+        if (!canvas) return null;
+        const rect = canvas.getBoundingClientRect();
+        const { size, left, top } = getFrame(rect.width, rect.height);
+        return {
+            x: Math.max(0, Math.min(1, (clientX - rect.left - left) / size)),
+            y: Math.max(0, Math.min(1, (clientY - rect.top - top) / size))
+        };
+    };
+
+    const getClient = (e: React.MouseEvent | React.TouchEvent) => {
+        if ('touches' in e) return { clientX: e.touches[0].clientX, clientY: e.touches[0].clientY };
+        return { clientX: e.clientX, clientY: e.clientY };
+    };
+
+    const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
+        const { clientX, clientY } = getClient(e);
+        const p = toNormalized(clientX, clientY);
+        if (p) setStroke([p]);
+    };
+
+    const handleMove = (e: React.MouseEvent | React.TouchEvent) => {
+        if (!stroke) return;
+        const { clientX, clientY } = getClient(e);
+        const p = toNormalized(clientX, clientY);
+        if (p) setStroke([...stroke, p]);
+    };
+
+    const handleEnd = () => {
+        if (!stroke) return;
+        // A click without movement isn't a shape, keep the previous path
+        if (stroke.length > 2) onChange(stroke);
+        setStroke(null);
+    };
+
+    return (
+        <div
+            ref={containerRef}
+            className="relative h-64 md:h-80 w-full bg-white rounded-lg border border-gray-200 shadow-inner overflow-hidden cursor-crosshair touch-none select-none"
+            onMouseDown={handleStart}
+            onTouchStart={handleStart}
+            onMouseMove={handleMove}
+            onTouchMove={handleMove}
+            onMouseUp={handleEnd}
+            onMouseLeave={handleEnd}
+            onTouchEnd={handleEnd}
+        >
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full block" />
+
+            {/* Hint Overlay */}
+            <div className={`absolute inset-0 flex items-center justify-center pointer-events-none transition-opacity duration-500 ${stroke || path.length > 0 ? 'opacity-0' : 'opacity-100'}`}>
+                <span className="bg-white/90 backdrop-blur px-4 py-2 rounded-full text-sm font-medium text-gray-500 shadow-sm border border-gray-100">
+                    Draw a closed shape in one stroke
+                </span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,190 @@
+import React, { useMemo } from 'react';
+import { DFTCoefficient } from '../../types';
+import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
+import { analyzeConvergence, ConvergencePoint, GIBBS_OVERSHOOT_PERCENT } from '../../utils/convergence';
+import { SummationMethod, SUMMATION_LABELS } from '../../utils/summation';
+
+interface ConvergencePanelProps {
+    signal: number[];
+    coefficients: DFTCoefficient[];
+    harmonics: number;
+    maxHarmonics: number;
+    method: SummationMethod;
+    onSelectHarmonics: (n: number) => void;
+}
+
+interface Series {
+    values: (number | null)[];
+    color: string;
+}
+
+const PADDING = { left: 36, right: 10, top: 10, bottom: 20 };
+
+// Plain line chart over n = 1..maxN, with the selected n marked
+const drawChart = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    series: Series[],
+    selected: number,
+    maxN: number,
+    yMax: number,
+    formatY: (v: number) => string,
+    reference?: number
+) => {
+    ctx.clearRect(0, 0, width, height);
+    const plotW = width - PADDING.left - PADDING.right;
+    const plotH = height - PADDING.top - PADDING.bottom;
+    const toX = (n: number) => PADDING.left + ((n - 1) / Math.max(1, maxN - 1)) * plotW;
+    const toY = (v: number) => PADDING.top + plotH - (Math.min(v, yMax) / yMax) * plotH;
+
+    // Grid + labels
+    ctx.font = '10px ui-monospace, monospace';
+    ctx.fillStyle = '#9ca3af';
+    ctx.strokeStyle = '#f3f4f6';
+    ctx.lineWidth = 1;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.beginPath();
+    for (let i = 0; i <= 4; i++) {
+        const v = (yMax * i) / 4;
+        const y = toY(v);
+        ctx.moveTo(PADDING.left, y);
+        ctx.lineTo(width - PADDING.right, y);
+        ctx.fillText(formatY(v), PADDING.left - 4, y);
+    }
+    ctx.stroke();
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    [1, 10, 20, 30, 40, 50].filter(n => n <= maxN).forEach(n => ctx.fillText(`${n}`, toX(n), height - PADDING.bottom + 6));
+
+    // Reference level (e.g. the Gibbs limit)
+    if (reference !== undefined) {
+        ctx.strokeStyle = '#f59e0b';
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(PADDING.left, toY(reference));
+        ctx.lineTo(width - PADDING.right, toY(reference));
+        ctx.stroke();
+        ctx.setLineDash([]);
+    }
+
+    // Current N
+    ctx.strokeStyle = 'rgba(79, 70, 229, 0.3)';
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.moveTo(toX(selected), PADDING.top);
+    ctx.lineTo(toX(selected), PADDING.top + plotH);
+    ctx.stroke();
+
+    series.forEach(({ values, color }) => {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        let started = false;
+        values.forEach((v, i) => {
+            if (v === null) return;
+            const x = toX(i + 1);
+            const y = toY(v);
+            if (!started) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+            started = true;
+        });
+        ctx.stroke();
+
+        const current = values[selected - 1];
+        if (current !== null && current !== undefined) {
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            ctx.arc(toX(selected), toY(current), 4, 0, Math.PI * 2);
+            ctx.fill();
+        }
+    });
+};
+
+export const ConvergencePanel: React.FC<ConvergencePanelProps> = ({ signal, coefficients, harmonics, maxHarmonics, method, onSelectHarmonics }) => {
+    const points: ConvergencePoint[] = useMemo(
+        () => analyzeConvergence(signal, coefficients, maxHarmonics, method),
+        [signal, coefficients, maxHarmonics, method]
+    );
+    const current = points[harmonics - 1];
+    const hasJumps = points.some(p => p.overshoot !== null);
+
+    const errorMax = Math.max(1e-3, ...points.map(p => p.maxError)) * 1.1;
+    const overshootMax = Math.max(GIBBS_OVERSHOOT_PERCENT * 2, ...points.map(p => p.overshoot ?? 0)) * 1.1;
+
+    const errorCanvasRef = useCanvasAnimation((ctx, _time, _deltaTime, width, height) => {
+        drawChart(ctx, width, height, [
+            { values: points.map(p => p.maxError), color: '#EF4444' },
+            { values: points.map(p => p.rms), color: '#4F46E5' }
+        ], harmonics, maxHarmonics, errorMax, v => v.toFixed(2));
+    }, [points]);
+
+    const overshootCanvasRef = useCanvasAnimation((ctx, _time, _deltaTime, width, height) => {
+        drawChart(ctx, width, height, [
+            { values: points.map(p => p.overshoot), color: '#F59E0B' }
+        ], harmonics, maxHarmonics, overshootMax, v => `${v.toFixed(0)}%`, GIBBS_OVERSHOOT_PERCENT);
+    }, [points]);
+
+    // Click anywhere on a chart to jump to that harmonic count
+    const handleChartClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const ratio = (e.clientX - rect.left - PADDING.left) / (rect.width - PADDING.left - PADDING.right);
+        const n = Math.round(1 + ratio * (maxHarmonics - 1));
+        onSelectHarmonics(Math.max(1, Math.min(maxHarmonics, n)));
+    };
+
+    return (
+        <div className="mt-8 space-y-4">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-2">
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-900">
+                        Convergence & Gibbs Phenomenon
+                        <span className="ml-2 text-xs font-normal text-gray-400">({SUMMATION_LABELS[method]} summation)</span>
+                    </h3>
+                    <p className="text-xs text-gray-500 mt-1 max-w-lg">
+                        How the reconstruction error shrinks as terms are added. Near a jump the plain partial sum's
+                        overshoot never disappears: it settles at about {GIBBS_OVERSHOOT_PERCENT.toFixed(1)}% of the jump height.
+                        Smoothed sums trade that ringing for a softer edge.
+                    </p>
+                </div>
+                {current && (
+                    <div className="flex gap-4 text-xs font-mono">
+                        <span className="text-indigo-600">RMS {current.rms.toFixed(4)}</span>
+                        <span className="text-red-500">Max {current.maxError.toFixed(4)}</span>
+                        <span className="text-amber-600">Overshoot {current.overshoot === null ? '—' : `${current.overshoot.toFixed(1)}%`}</span>
+                    </div>
+                )}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+                <div className="bg-white rounded-lg border border-gray-200 p-3">
+                    <div className="flex justify-between items-center mb-2 text-[10px] font-bold uppercase tracking-wider text-gray-400">
+                        <span>Error vs Terms</span>
+                        <span className="flex gap-3 normal-case font-medium">
+                            <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-indigo-600"></span>RMS</span>
+                            <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-red-500"></span>Max |error|</span>
+                        </span>
+                    </div>
+                    <canvas ref={errorCanvasRef} onClick={handleChartClick} className="w-full h-40 block cursor-pointer" />
+                </div>
+                <div className="bg-white rounded-lg border border-gray-200 p-3">
+                    <div className="flex justify-between items-center mb-2 text-[10px] font-bold uppercase tracking-wider text-gray-400">
+                        <span>Overshoot at Jumps</span>
+                        <span className="flex items-center gap-1 normal-case font-medium">
+                            <span className="w-2 h-0.5 bg-amber-500"></span>Gibbs limit
+                        </span>
+                    </div>
+                    {hasJumps ? (
+                        <canvas ref={overshootCanvasRef} onClick={handleChartClick} className="w-full h-40 block cursor-pointer" />
+                    ) : (
+                        <div className="h-40 flex items-center justify-center text-xs text-gray-400 italic">
+                            No discontinuities detected in this signal
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
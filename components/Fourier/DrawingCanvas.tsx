@@ -3,12 +3,13 @@ import React, { useRef, useState, useEffect } from 'react';
 interface DrawingCanvasProps {
     data: number[];
     onChange: (newData: number[]) => void;
+    onStrokeBoundary?: () => void;
     brushSize: number;
     zoom: number;
     pan: number;
 }
 
-export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ data, onChange, brushSize, zoom, pan }) => {
+export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ data, onChange, onStrokeBoundary, brushSize, zoom, pan }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isDrawing, setIsDrawing] = useState(false);
     const [cursorPos, setCursorPos] = useState<{x: number, y: number} | null>(null);
@@ -170,12 +171,18 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ data, onChange, br
         onChange(newData);
     };
 
+    const handleStart = () => {
+        setIsDrawing(true);
+        onStrokeBoundary?.();
+    };
+
     const handleEnd = () => {
         setIsDrawing(false);
+        onStrokeBoundary?.();
     };
 
     const handleLeave = () => {
-        setIsDrawing(false);
+        handleEnd();
         setCursorPos(null);
     }
 
@@ -183,8 +190,8 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ data, onChange, br
         <div 
             ref={containerRef}
             className={`relative h-64 md:h-80 w-full bg-white rounded-lg border border-gray-200 shadow-inner overflow-hidden cursor-crosshair touch-none select-none group ${isDrawing ? 'cursor-none' : ''}`}
-            onMouseDown={() => setIsDrawing(true)}
-            onTouchStart={() => setIsDrawing(true)}
+            onMouseDown={handleStart}
+            onTouchStart={handleStart}
             onMouseMove={handlePointerMove}
             onTouchMove={handlePointerMove}
             onMouseUp={handleEnd}
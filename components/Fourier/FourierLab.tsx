@@ -1,20 +1,37 @@
 import React, { useState, useMemo } from 'react';
 import { DrawingCanvas } from './DrawingCanvas';
-import { generatePresetWave, computeDFT } from '../../utils/math';
+import { generatePresetWave, computeDFT, findSpectralPeaks, DRAWING_LENGTH, MAX_HARMONICS } from '../../utils/math';
 import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
 import { RangeSlider } from '../ui/RangeSlider';
-import { Wave, COLORS } from '../../types';
+import { sampleExpression, ExpressionError } from '../../utils/expression';
+import { synthesizePartials, coefficientToPartial, coefficientsToWaves } from '../../utils/synth';
+import { ConvergencePanel } from './ConvergencePanel';
+import { SummationMethod, SUMMATION_LABELS, applySummation } from '../../utils/summation';
+import { Wave } from '../../types';
 
 interface FourierLabProps {
+    // The drawn cycle lives in App so it survives tab switches and can be filled from imports
+    drawing: number[];
+    onDrawingChange: (drawing: number[], continuous?: boolean) => void; // continuous: part of a brush stroke
+    harmonics: number;
+    onHarmonicsChange: (harmonics: number, continuous?: boolean) => void; // continuous: a slider drag
+    onStrokeBoundary?: () => void; // a freehand stroke started or ended (ends the undo step)
     onExportToLab?: (waves: Wave[]) => void;
 }
 
-export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
-    // 200 sample points for the drawing
-    const [drawing, setDrawing] = useState<number[]>(new Array(200).fill(0.5));
-    const [harmonics, setHarmonics] = useState<number>(5);
+export const FourierLab: React.FC<FourierLabProps> = ({ drawing, onDrawingChange: setDrawing, harmonics, onHarmonicsChange: setHarmonics, onStrokeBoundary, onExportToLab }) => {
     const [showComponents, setShowComponents] = useState<boolean>(false);
+    const [summation, setSummation] = useState<SummationMethod>('dirichlet');
+
+    // Export source: integer harmonics, or refined spectral peaks with fractional frequencies
+    const [exportMode, setExportMode] = useState<'harmonics' | 'peaks'>('harmonics');
+    const [zeroPadding, setZeroPadding] = useState<number>(8);
     
+    // Expression input
+    const [expression, setExpression] = useState<string>('abs(sin(2*pi*t))');
+    const [expressionError, setExpressionError] = useState<ExpressionError | null>(null);
+    const [clippedSamples, setClippedSamples] = useState<number>(0);
+
     // Editor controls
     const [brushSize, setBrushSize] = useState<number>(5);
     const [zoom, setZoom] = useState<number>(1);
@@ -23,6 +40,14 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
     // Compute coefficients only when drawing changes
     const coefficients = useMemo(() => computeDFT(drawing), [drawing]);
 
+    const peaks = useMemo(
+        () => exportMode === 'peaks' ? findSpectralPeaks(drawing, { maxPeaks: harmonics, zeroPadding }) : [],
+        [drawing, exportMode, harmonics, zeroPadding]
+    );
+
+    // The first N terms, weighted by the selected summation method
+    const activeTerms = useMemo(() => applySummation(coefficients, harmonics, summation), [coefficients, harmonics, summation]);
+
     // Updated signature: added deltaTime
     const reconstructionCanvasRef = useCanvasAnimation((ctx, time, deltaTime, width, height) => {
         ctx.clearRect(0, 0, width, height);
@@ -42,29 +67,22 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
         // Draw Individual Sine Components
         if (showComponents) {
             ctx.lineWidth = 1.5;
-            for (let k = 0; k < harmonics; k++) {
-                if (k >= coefficients.length) break;
-                const c = coefficients[k];
+            for (let k = 0; k < activeTerms.length; k++) {
+                const c = activeTerms[k];
 
                 ctx.beginPath();
                 // Assign distinct color based on harmonic index using Golden Angle approximation
                 // This ensures adjacent harmonics have distinct hues
                 ctx.strokeStyle = `hsla(${(k * 137.5) % 360}, 70%, 60%, 0.3)`;
 
-                for (let x = 0; x < width; x+=2) {
-                    const t = x / width;
-                    let yVal = 0;
-                    
-                    if (k === 0) {
-                         // DC Component: Constant level
-                         yVal = c.amp;
-                    } else {
-                         // AC Components: Centered around 0.5 for clear visualization
-                         yVal = 0.5 + c.amp * Math.cos(2 * Math.PI * c.freq * t + c.phase);
-                    }
+                // AC components are centered around 0.5 for clear visualization, DC is drawn as a constant level
+                const samples = synthesizePartials([coefficientToPartial(c)], { sampleRate: width / 2, duration: 1 });
+                const baseline = k === 0 ? 0 : 0.5;
 
-                    const screenY = (1 - yVal) * height;
-                    if (x === 0) ctx.moveTo(x, screenY);
+                for (let i = 0; i < samples.length; i++) {
+                    const x = i * 2;
+                    const screenY = (1 - (baseline + samples[i])) * height;
+                    if (i === 0) ctx.moveTo(x, screenY);
                     else ctx.lineTo(x, screenY);
                 }
                 ctx.stroke();
@@ -82,17 +100,11 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
             ctx.shadowBlur = 4;
         }
 
-        for (let x = 0; x < width; x++) {
-            const t = x / width; // 0 to 1
-            let yVal = 0;
+        const partials = activeTerms.map(coefficientToPartial);
+        const samples = synthesizePartials(partials, { sampleRate: width, duration: 1 });
 
-            for (let k = 0; k < harmonics; k++) {
-                if (k >= coefficients.length) break;
-                const c = coefficients[k];
-                yVal += c.amp * Math.cos(2 * Math.PI * c.freq * t + c.phase);
-            }
-            
-            const screenY = (1 - yVal) * height;
+        for (let x = 0; x < samples.length; x++) {
+            const screenY = (1 - samples[x]) * height;
 
             if (x === 0) ctx.moveTo(x, screenY);
             else ctx.lineTo(x, screenY);
@@ -100,38 +112,32 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
         ctx.stroke();
         ctx.shadowBlur = 0;
 
-    }, [drawing, harmonics, coefficients, showComponents]);
+    }, [drawing, harmonics, activeTerms, showComponents]);
+
+    const applyExpression = () => {
+        try {
+            const { samples, clipped } = sampleExpression(expression, drawing.length);
+            setDrawing(samples);
+            setClippedSamples(clipped);
+            setExpressionError(null);
+        } catch (e) {
+            if (!(e instanceof ExpressionError)) throw e;
+            setExpressionError(e);
+        }
+    };
 
     const handleExport = () => {
         if (!onExportToLab) return;
-        
-        const wavesToExport: Wave[] = [];
-        // We skip the DC component (k=0) as WaveLab works with AC frequencies > 0
-        const activeCoefficients = coefficients.slice(1, harmonics + 1);
-        
-        // Find max amplitude to normalize visual loudness in Wave Lab
-        // Wave Lab uses 0-100 scale, DFT uses 0-0.5 approx.
-        // We want the strongest harmonic to be around 80% amplitude in Wave Lab.
-        const maxAmp = Math.max(...activeCoefficients.map(c => c.amp));
-        const scaleFactor = maxAmp > 0.001 ? (80 / maxAmp) : 100;
-
-        activeCoefficients.forEach((c, index) => {
-            // Filter out extremely quiet harmonics to reduce clutter
-            if (c.amp * scaleFactor < 1) return;
 
-            wavesToExport.push({
-                id: index + 1,
-                // Wave Lab uses relative frequency. c.freq is integer harmonic index.
-                freq: c.freq,
-                amp: c.amp * scaleFactor,
-                // Convert Radians to Degrees for Wave Lab
-                phase: (c.phase * 180 / Math.PI + 360) % 360,
-                color: COLORS[index % COLORS.length],
-                muted: false
-            });
-        });
+        // We skip the DC component (k=0) as WaveLab works with AC frequencies > 0
+        // The weighted terms are the ones drawn above, so the Wave Lab hears exactly the displayed curve
+        const activeCoefficients = exportMode === 'peaks'
+            ? peaks
+            : activeTerms.slice(1);
+        if (activeCoefficients.length === 0) return;
 
-        onExportToLab(wavesToExport);
+        // Wave Lab uses relative frequency. c.freq is the harmonic index (fractional for refined peaks).
+        onExportToLab(coefficientsToWaves(activeCoefficients));
     };
 
     return (
@@ -158,7 +164,7 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
                             Sawtooth
                         </button>
                         <button 
-                            onClick={() => setDrawing(new Array(200).fill(0.5))}
+                            onClick={() => setDrawing(new Array(DRAWING_LENGTH).fill(0.5))}
                             className="px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 rounded-md transition-all"
                         >
                             Reset
@@ -173,6 +179,50 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
                             <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Input Signal (Draw Here)</label>
                         </div>
                         
+                        {/* Expression Input */}
+                        <div className="space-y-1">
+                            <form
+                                onSubmit={(e) => { e.preventDefault(); applyExpression(); }}
+                                className={`flex items-center gap-2 p-1.5 pl-3 bg-white rounded-lg border transition-colors ${expressionError ? 'border-red-300 ring-1 ring-red-200' : 'border-gray-200 focus-within:border-indigo-500'}`}
+                            >
+                                <span className="text-xs font-mono text-gray-400 select-none">f(t) =</span>
+                                <input
+                                    type="text"
+                                    value={expression}
+                                    onChange={(e) => { setExpression(e.target.value); setExpressionError(null); setClippedSamples(0); }}
+                                    spellCheck={false}
+                                    placeholder="e.g. t < 0.3 ? 1 : 0"
+                                    className="flex-1 min-w-0 text-sm font-mono text-gray-800 bg-transparent focus:outline-none"
+                                />
+                                <button
+                                    type="submit"
+                                    className="px-3 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded-md transition-all"
+                                >
+                                    Plot
+                                </button>
+                            </form>
+                            {expressionError ? (
+                                <div className="text-xs text-red-600 px-1">
+                                    {expressionError.position >= 0 && (
+                                        <div className="font-mono whitespace-pre text-gray-500 overflow-x-auto no-scrollbar">
+                                            {expression.slice(0, expressionError.position)}
+                                            <span className="bg-red-200 text-red-800 rounded-sm">{expression[expressionError.position] ?? ' '}</span>
+                                            {expression.slice(expressionError.position + 1)}
+                                        </div>
+                                    )}
+                                    {expressionError.message}
+                                </div>
+                            ) : clippedSamples > 0 ? (
+                                <p className="text-[10px] text-amber-600 px-1">
+                                    {clippedSamples} of {drawing.length} samples were outside 0–1 and have been clipped to the canvas. Try rescaling, e.g. <code>0.5 + 0.5 * sin(2*pi*t)</code>.
+                                </p>
+                            ) : (
+                                <p className="text-[10px] text-gray-400 px-1">
+                                    One cycle, t from 0 to 1. Try <code>exp(-5t)</code>, <code>t &lt; 0.3 ? 1 : 0</code> or <code>piecewise(t &lt; 0.5, t, 1 - t)</code>.
+                                </p>
+                            )}
+                        </div>
+
                         {/* Editor Controls */}
                         <div className="flex gap-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
                              <div className="flex-1">
@@ -206,7 +256,8 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
 
                         <DrawingCanvas 
                             data={drawing} 
-                            onChange={setDrawing} 
+                            onChange={(data) => setDrawing(data, true)} 
+                            onStrokeBoundary={onStrokeBoundary}
                             brushSize={brushSize}
                             zoom={zoom}
                             pan={pan}
@@ -230,7 +281,7 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
                         <div className="h-64 md:h-80 w-full bg-gray-900 rounded-lg border border-gray-800 shadow-inner overflow-hidden relative">
                              <canvas ref={reconstructionCanvasRef} className="w-full h-full block" />
                              <div className="absolute top-4 right-4 bg-black/50 backdrop-blur text-white text-xs px-2 py-1 rounded font-mono pointer-events-none">
-                                 N = {harmonics}
+                                 N = {harmonics}{summation !== 'dirichlet' && ` · ${SUMMATION_LABELS[summation]}`}
                              </div>
                         </div>
                     </div>
@@ -243,17 +294,55 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
                             label="Harmonic Complexity (Number of Sine Waves)"
                             valueDisplay={harmonics}
                             min={1}
-                            max={50}
+                            max={MAX_HARMONICS}
                             step={1}
                             value={harmonics}
-                            onChange={(e) => setHarmonics(parseInt(e.target.value))}
+                            onChange={(e) => setHarmonics(parseInt(e.target.value), true)}
                         />
                         <p className="text-xs text-indigo-600/80 mt-3">
                             As you increase harmonics, the reconstruction (blue line) better approximates your sharp edges.
                         </p>
+                        <div className="flex flex-wrap items-center gap-2 mt-4">
+                            <span className="text-xs text-gray-500 font-medium">Summation</span>
+                            <div className="flex bg-white/70 p-0.5 rounded-lg border border-indigo-100">
+                                {(Object.keys(SUMMATION_LABELS) as SummationMethod[]).map(method => (
+                                    <button
+                                        key={method}
+                                        onClick={() => setSummation(method)}
+                                        className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${summation === method ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-600 hover:text-indigo-700'}`}
+                                    >
+                                        {SUMMATION_LABELS[method]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
                     </div>
 
-                    <div className="w-full md:w-auto flex-shrink-0">
+                    <div className="w-full md:w-auto flex-shrink-0 space-y-3">
+                        <div className="flex items-center gap-2">
+                            <div className="flex bg-white/70 p-0.5 rounded-lg border border-indigo-100">
+                                {(['harmonics', 'peaks'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setExportMode(mode)}
+                                        title={mode === 'peaks' ? 'Interpolated spectral peaks with fractional frequencies' : 'Integer harmonics of the drawn cycle'}
+                                        className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${exportMode === mode ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-600 hover:text-indigo-700'}`}
+                                    >
+                                        {mode === 'peaks' ? 'Refined Peaks' : 'Harmonics'}
+                                    </button>
+                                ))}
+                            </div>
+                            {exportMode === 'peaks' && (
+                                <select
+                                    value={zeroPadding}
+                                    onChange={(e) => setZeroPadding(parseInt(e.target.value))}
+                                    title="Zero-padding factor"
+                                    className="text-xs text-gray-700 bg-white border border-indigo-100 rounded-md px-1.5 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                >
+                                    {[1, 2, 4, 8, 16].map(f => <option key={f} value={f}>{f}x pad</option>)}
+                                </select>
+                            )}
+                        </div>
                         <button 
                             onClick={handleExport}
                             className="w-full md:w-auto flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg text-sm font-semibold shadow-md transition-all hover:scale-105 active:scale-95"
@@ -265,6 +354,28 @@ export const FourierLab: React.FC<FourierLabProps> = ({ onExportToLab }) => {
                         </button>
                     </div>
                 </div>
+
+                {exportMode === 'peaks' && (
+                    <div className="mt-4 flex flex-wrap gap-2 items-center text-xs">
+                        <span className="font-bold text-gray-400 uppercase tracking-wider text-[10px]">Detected Partials</span>
+                        {peaks.length === 0 ? (
+                            <span className="text-gray-400 italic">No peaks found</span>
+                        ) : peaks.map((p, i) => (
+                            <span key={i} className="font-mono px-2 py-0.5 rounded bg-gray-50 border border-gray-200 text-gray-700">
+                                f = {p.freq.toFixed(3)} · A = {p.amp.toFixed(3)}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
+                <ConvergencePanel
+                    signal={drawing}
+                    coefficients={coefficients}
+                    harmonics={harmonics}
+                    maxHarmonics={MAX_HARMONICS}
+                    method={summation}
+                    onSelectHarmonics={(n) => setHarmonics(n)}
+                />
             </div>
         </div>
     );
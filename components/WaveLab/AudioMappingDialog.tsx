@@ -0,0 +1,128 @@
+import React from 'react';
+import { AudioMapping, PitchMappingMode, TuningSystem } from '../../types';
+import { RangeSlider } from '../ui/RangeSlider';
+import { audioScale, nearestNote, formatNote, NOTE_NAMES, DEFAULT_AUDIO_MAPPING } from '../../utils/pitch';
+
+interface AudioMappingDialogProps {
+    mapping: AudioMapping;
+    onChange: (mapping: AudioMapping) => void;
+    onClose: () => void;
+}
+
+const MODE_LABELS: Record<PitchMappingMode, string> = {
+    multiplier: 'Multiplier',
+    base: 'Base Pitch',
+    real: '1:1 Real Hz'
+};
+
+const selectClass = "w-full text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+export const AudioMappingDialog: React.FC<AudioMappingDialogProps> = ({ mapping, onChange, onClose }) => {
+    const update = (updates: Partial<AudioMapping>) => onChange({ ...mapping, ...updates });
+    const scale = audioScale(mapping);
+    const baseNote = nearestNote(scale, mapping);
+
+    return (
+        <div className="fixed inset-0 z-40 bg-gray-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="w-full max-w-md bg-white rounded-xl shadow-xl border border-gray-100 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Audio Pitch & Tuning</h2>
+                        <p className="text-gray-500 text-sm mt-1">
+                            How layer frequencies are turned into audible pitch, and how notes are named.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="space-y-4">
+                    <div className="flex bg-gray-100 p-0.5 rounded-lg">
+                        {(Object.keys(MODE_LABELS) as PitchMappingMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => update({ mode })}
+                                className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all ${mapping.mode === mode ? 'bg-white shadow-sm text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                {MODE_LABELS[mode]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {mapping.mode === 'multiplier' && (
+                        <RangeSlider
+                            label="Audio Hz per layer Hz (×)"
+                            min={1} max={200} step={1}
+                            value={mapping.multiplier}
+                            onChange={(e) => update({ multiplier: Math.max(0.01, parseFloat(e.target.value) || 1) })}
+                        />
+                    )}
+                    {mapping.mode === 'base' && (
+                        <RangeSlider
+                            label="Pitch of frequency 1 (Hz)"
+                            min={10} max={1000} step={0.01}
+                            value={mapping.basePitch}
+                            onChange={(e) => update({ basePitch: Math.max(0.01, parseFloat(e.target.value) || 1) })}
+                        />
+                    )}
+                    <p className="text-xs text-gray-500">
+                        A layer at frequency 1 plays at <span className="font-mono text-gray-700">{scale.toFixed(2)} Hz</span>
+                        {baseNote && <> ({formatNote(baseNote)})</>}
+                        {mapping.mode === 'real' && ', so the frequency sliders are real Hz'}.
+                    </p>
+
+                    <div className="pt-4 border-t border-gray-100 space-y-4">
+                        <RangeSlider
+                            label="A4 Reference (Hz)"
+                            min={400} max={480} step={0.1}
+                            value={mapping.a4}
+                            onChange={(e) => update({ a4: Math.max(1, parseFloat(e.target.value) || DEFAULT_AUDIO_MAPPING.a4) })}
+                        />
+                        <div className="grid grid-cols-2 gap-4">
+                            <label className="block">
+                                <span className="block text-xs text-gray-500 font-medium mb-1">Tuning</span>
+                                <select
+                                    value={mapping.tuning}
+                                    onChange={(e) => update({ tuning: e.target.value as TuningSystem })}
+                                    className={selectClass}
+                                >
+                                    <option value="equal">12-TET (Equal)</option>
+                                    <option value="just">Just Intonation</option>
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="block text-xs text-gray-500 font-medium mb-1">Tonic</span>
+                                <select
+                                    value={mapping.tonic}
+                                    disabled={mapping.tuning !== 'just'}
+                                    onChange={(e) => update({ tonic: parseInt(e.target.value) })}
+                                    className={`${selectClass} disabled:opacity-40`}
+                                >
+                                    {NOTE_NAMES.map((name, i) => <option key={name} value={i}>{name}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-between items-center pt-2 border-t border-gray-100">
+                    <button
+                        onClick={() => onChange(DEFAULT_AUDIO_MAPPING)}
+                        className="text-xs text-gray-500 hover:text-indigo-600 transition-colors"
+                    >
+                        Reset to defaults
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium rounded-lg shadow-sm transition-all"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,237 @@
+import React, { useState, useMemo } from 'react';
+import { Wave, MAX_LAYER_FREQUENCY } from '../../types';
+import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
+import { RangeSlider } from '../ui/RangeSlider';
+import { synthesize } from '../../utils/synth';
+import {
+    generateHarmonicSeries, DEFAULT_HARMONIC_SERIES, MAX_SERIES_PARTIALS, MAX_INHARMONICITY,
+    HarmonicSeriesOptions, HarmonicSelection, RolloffLaw, PhasePattern
+} from '../../utils/harmonicSeries';
+
+interface HarmonicSeriesDialogProps {
+    onClose: () => void;
+    onReplace: (waves: Wave[]) => void;
+    onAppend: (waves: Wave[]) => void;
+}
+
+const SELECTION_LABELS: Record<HarmonicSelection, string> = { all: 'All', odd: 'Odd', even: 'Even' };
+const ROLLOFF_LABELS: Record<RolloffLaw, string> = { inverse: '1/n', inverse_square: '1/n²', exponential: 'Exponential', custom: 'Custom' };
+const PHASE_LABELS: Record<PhasePattern, string> = { zero: 'Zero', alternating: 'Alternating', random: 'Random', schroeder: 'Schroeder' };
+
+// Samples across the two fundamental periods shown in the preview
+const PREVIEW_SAMPLES = 600;
+
+// Segmented button row, as in the tuning dialog
+const Segmented = <T extends string,>({ labels, value, onChange }: { labels: Record<T, string>, value: T, onChange: (value: T) => void }) => (
+    <div className="flex bg-gray-100 p-0.5 rounded-lg">
+        {(Object.keys(labels) as T[]).map(option => (
+            <button
+                key={option}
+                onClick={() => onChange(option)}
+                className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all ${value === option ? 'bg-white shadow-sm text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+                {labels[option]}
+            </button>
+        ))}
+    </div>
+);
+
+export const HarmonicSeriesDialog: React.FC<HarmonicSeriesDialogProps> = ({ onClose, onReplace, onAppend }) => {
+    const [options, setOptions] = useState<HarmonicSeriesOptions>(DEFAULT_HARMONIC_SERIES);
+    const update = (updates: Partial<HarmonicSeriesOptions>) => setOptions(prev => ({ ...prev, ...updates }));
+
+    const { waves, dropped } = useMemo(() => generateHarmonicSeries(options), [options]);
+
+    // Two periods of the fundamental, normalized to the peak
+    const samples = useMemo(() => {
+        const duration = 2 / options.fundamental;
+        return synthesize(waves, { sampleRate: PREVIEW_SAMPLES / duration, duration, normalize: 'peak' });
+    }, [waves, options.fundamental]);
+
+    // Peak-to-RMS ratio: what Schroeder phases keep low
+    const crestFactor = useMemo(() => {
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+        const rms = Math.sqrt(sum / Math.max(1, samples.length));
+        return rms > 0 ? 1 / rms : 0;
+    }, [samples]);
+
+    const highest = waves.length > 0 ? waves[waves.length - 1].freq : options.fundamental;
+
+    const waveCanvasRef = useCanvasAnimation((ctx, _time, _deltaTime, width, height) => {
+        const cy = height / 2;
+        ctx.clearRect(0, 0, width, height);
+        ctx.strokeStyle = '#e5e7eb';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(0, cy);
+        ctx.lineTo(width, cy);
+        ctx.stroke();
+
+        ctx.strokeStyle = '#4F46E5';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        samples.forEach((v, i) => {
+            const x = (i / (samples.length - 1)) * width;
+            const y = cy - v * (height / 2 - 6);
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+    }, [samples]);
+
+    const spectrumCanvasRef = useCanvasAnimation((ctx, _time, _deltaTime, width, height) => {
+        ctx.clearRect(0, 0, width, height);
+        const maxAmp = Math.max(...waves.map(w => w.amp), 1);
+        const maxFreq = highest * 1.05;
+        waves.forEach(w => {
+            const x = (w.freq / maxFreq) * width;
+            const h = (w.amp / maxAmp) * (height - 4);
+            ctx.fillStyle = w.color;
+            ctx.fillRect(x - 1.5, height - h, 3, h);
+        });
+    }, [waves, highest]);
+
+    return (
+        <div className="fixed inset-0 z-40 bg-gray-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-xl border border-gray-100 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Harmonic Series</h2>
+                        <p className="text-gray-500 text-sm mt-1">
+                            Generate a stack of partials from a recipe: which harmonics, how fast they fade, how their phases line up, and how far a stiff string bends them sharp.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="space-y-1">
+                    <div className="flex justify-between text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                        <span>Preview (two periods)</span>
+                        <span className="font-mono normal-case font-medium">
+                            {waves.length} partials · up to {highest.toFixed(1)} Hz · crest {crestFactor.toFixed(2)}
+                        </span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 h-24">
+                        <div className="col-span-2 bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
+                            <canvas ref={waveCanvasRef} className="w-full h-full block" />
+                        </div>
+                        <div className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
+                            <canvas ref={spectrumCanvasRef} className="w-full h-full block" />
+                        </div>
+                    </div>
+                    {waves.length === 0 ? (
+                        <p className="text-[10px] text-amber-600 px-1">
+                            Every partial lies above {MAX_LAYER_FREQUENCY} Hz, the highest layer frequency. Lower the fundamental to generate layers.
+                        </p>
+                    ) : dropped > 0 && (
+                        <p className="text-[10px] text-amber-600 px-1">
+                            {dropped} partial{dropped === 1 ? '' : 's'} above {MAX_LAYER_FREQUENCY} Hz, the highest layer frequency, {dropped === 1 ? 'was' : 'were'} left out. Lower the fundamental or the number of partials to keep them all.
+                        </p>
+                    )}
+                </div>
+
+                <div className="grid sm:grid-cols-3 gap-4">
+                    <RangeSlider
+                        label="Fundamental (Hz)"
+                        min={0.5} max={40} step={0.1}
+                        value={options.fundamental}
+                        onChange={(e) => update({ fundamental: Math.max(0.1, Math.min(MAX_LAYER_FREQUENCY, parseFloat(e.target.value) || 0.1)) })}
+                    />
+                    <RangeSlider
+                        label="Partials"
+                        min={1} max={MAX_SERIES_PARTIALS} step={1}
+                        value={options.count}
+                        onChange={(e) => update({ count: Math.max(1, Math.min(MAX_SERIES_PARTIALS, parseInt(e.target.value) || 1)) })}
+                    />
+                    <RangeSlider
+                        label="First amplitude (%)"
+                        min={1} max={100}
+                        value={options.amplitude}
+                        onChange={(e) => update({ amplitude: Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) })}
+                    />
+                </div>
+
+                <div className="space-y-1.5">
+                    <span className="text-xs text-gray-500 font-medium">Harmonics</span>
+                    <Segmented labels={SELECTION_LABELS} value={options.selection} onChange={(selection) => update({ selection })} />
+                </div>
+
+                <div className="space-y-1.5">
+                    <span className="text-xs text-gray-500 font-medium">Amplitude roll-off</span>
+                    <Segmented labels={ROLLOFF_LABELS} value={options.rolloff} onChange={(rolloff) => update({ rolloff })} />
+                    {options.rolloff === 'exponential' && (
+                        <RangeSlider
+                            label="Decay per harmonic"
+                            min={0.01} max={2} step={0.01}
+                            value={options.rate}
+                            onChange={(e) => update({ rate: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        />
+                    )}
+                    {options.rolloff === 'custom' && (
+                        <RangeSlider
+                            label="Exponent p (1/nᵖ)"
+                            min={0} max={4} step={0.05}
+                            value={options.exponent}
+                            onChange={(e) => update({ exponent: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        />
+                    )}
+                </div>
+
+                <div className="space-y-1.5">
+                    <span className="text-xs text-gray-500 font-medium">Phases</span>
+                    <div className="flex gap-2 items-center">
+                        <div className="flex-1">
+                            <Segmented labels={PHASE_LABELS} value={options.phase} onChange={(phase) => update({ phase })} />
+                        </div>
+                        {options.phase === 'random' && (
+                            <button
+                                onClick={() => update({ seed: options.seed + 1 })}
+                                title="New random phases"
+                                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 text-gray-600 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+                            >
+                                Reroll
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <RangeSlider
+                    label="Inharmonicity B (stiff string)"
+                    min={0} max={MAX_INHARMONICITY} step={0.0001}
+                    value={options.inharmonicity}
+                    onChange={(e) => update({ inharmonicity: Math.max(0, Math.min(MAX_INHARMONICITY, parseFloat(e.target.value) || 0)) })}
+                />
+
+                <div className="flex justify-between items-center pt-2 border-t border-gray-100">
+                    <button
+                        onClick={() => setOptions(DEFAULT_HARMONIC_SERIES)}
+                        className="text-xs text-gray-500 hover:text-indigo-600 transition-colors"
+                    >
+                        Reset to defaults
+                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onAppend(waves)}
+                            disabled={waves.length === 0}
+                            className="px-3 py-2 bg-white border border-gray-200 hover:border-indigo-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            Append Layers
+                        </button>
+                        <button
+                            onClick={() => onReplace(waves)}
+                            disabled={waves.length === 0}
+                            className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium rounded-lg shadow-sm transition-all disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            Replace Layers
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+import React, { useRef } from 'react';
+import { MAX_TABLE_HARMONICS } from '../../utils/shapes';
+
+interface HarmonicTableEditorProps {
+    harmonics: number[];
+    color: string;
+    onChange: (harmonics: number[]) => void;
+}
+
+// Bar editor for a custom waveform: drag across the bars to set each harmonic's level (0-1)
+export const HarmonicTableEditor: React.FC<HarmonicTableEditorProps> = ({ harmonics, color, onChange }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const isDrawing = useRef(false);
+
+    const table = Array.from({ length: MAX_TABLE_HARMONICS }, (_, n) => harmonics[n] ?? 0);
+
+    const setFromPointer = (clientX: number, clientY: number) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const index = Math.floor(((clientX - rect.left) / rect.width) * MAX_TABLE_HARMONICS);
+        if (index < 0 || index >= MAX_TABLE_HARMONICS) return;
+        const level = Math.max(0, Math.min(1, 1 - (clientY - rect.top) / rect.height));
+        const next = [...table];
+        // Snap near the ends so silence and full level are easy to hit
+        next[index] = level < 0.03 ? 0 : level > 0.97 ? 1 : Math.round(level * 100) / 100;
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-1">
+            <div className="flex justify-between items-center">
+                <span className="text-xs text-gray-500 font-medium select-none">Harmonic Table</span>
+                <span className="text-[10px] text-gray-400 select-none">drag to shape</span>
+            </div>
+            <div
+                ref={containerRef}
+                className="h-14 flex items-end gap-1 p-1 bg-gray-50 rounded-lg border border-gray-100 cursor-crosshair touch-none select-none"
+                onPointerDown={(e) => { isDrawing.current = true; e.currentTarget.setPointerCapture(e.pointerId); setFromPointer(e.clientX, e.clientY); }}
+                onPointerMove={(e) => { if (isDrawing.current) setFromPointer(e.clientX, e.clientY); }}
+                onPointerUp={() => { isDrawing.current = false; }}
+                onPointerCancel={() => { isDrawing.current = false; }}
+            >
+                {table.map((h, n) => (
+                    <div key={n} className="flex-1 h-full flex flex-col justify-end items-center" title={`Harmonic ${n + 1}: ${h.toFixed(2)}`}>
+                        <div className="w-full rounded-sm transition-[height] duration-75" style={{ height: `${Math.max(2, h * 100)}%`, backgroundColor: color, opacity: h > 0 ? 0.8 : 0.2 }} />
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-1 px-1">
+                {table.map((_, n) => (
+                    <span key={n} className="flex-1 text-center text-[9px] font-mono text-gray-400 select-none">{n + 1}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { KEY_LAYOUT, MIN_OCTAVE, MAX_OCTAVE, keyToMidi } from '../../hooks/useComputerKeyboard';
+import { NOTE_NAMES } from '../../utils/pitch';
+
+interface KeyboardStripProps {
+    octave: number;
+    pressed: Set<number>;
+    fundamental: number | null; // stack fundamental, in audio Hz at the current mapping
+    onOctaveChange: (octave: number) => void;
+    onPointerOn: (index: number) => void;
+    onPointerOff: (index: number) => void;
+}
+
+const isBlack = (index: number) => [1, 3, 6, 8, 10].includes(index % 12);
+
+// On-screen piano matching the QWERTY layout; keys can be played with the mouse too
+export const KeyboardStrip: React.FC<KeyboardStripProps> = ({ octave, pressed, fundamental, onOctaveChange, onPointerOn, onPointerOff }) => {
+    const whites = KEY_LAYOUT.map((k, i) => ({ ...k, index: i })).filter(k => !isBlack(k.index));
+    const whiteWidth = 100 / whites.length;
+
+    const renderKey = (index: number, label: string) => {
+        const midi = keyToMidi(index, octave);
+        const black = isBlack(index);
+        const active = pressed.has(midi);
+        // Black keys straddle the boundary after the white key below them
+        const whitesBefore = KEY_LAYOUT.slice(0, index).filter((_, i) => !isBlack(i)).length;
+        const style = black
+            ? { left: `${whitesBefore * whiteWidth - whiteWidth * 0.3}%`, width: `${whiteWidth * 0.6}%` }
+            : { left: `${whitesBefore * whiteWidth}%`, width: `${whiteWidth}%` };
+        return (
+            <button
+                key={index}
+                onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); onPointerOn(index); }}
+                onPointerUp={() => onPointerOff(index)}
+                onPointerCancel={() => onPointerOff(index)}
+                className={`absolute top-0 flex flex-col justify-end items-center pb-1 rounded-b-md border select-none touch-none transition-colors ${
+                    black
+                        ? `h-3/5 z-10 text-[9px] ${active ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-gray-900 border-gray-700 text-gray-500 hover:bg-gray-800'}`
+                        : `h-full text-[10px] ${active ? 'bg-indigo-300 border-indigo-400 text-indigo-900' : 'bg-gray-100 border-gray-300 text-gray-500 hover:bg-white'}`
+                }`}
+                style={style}
+                title={`${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`}
+            >
+                <span className="font-mono font-bold">{label}</span>
+                {!black && <span className="text-[8px] opacity-70">{NOTE_NAMES[midi % 12]}{Math.floor(midi / 12) - 1}</span>}
+            </button>
+        );
+    };
+
+    return (
+        <div className="flex items-center gap-3 mt-2 w-full">
+            <div className="flex flex-col items-center gap-1 text-[10px] text-gray-400 font-mono">
+                <div className="flex gap-1">
+                    <button
+                        onClick={() => onOctaveChange(Math.max(MIN_OCTAVE, octave - 1))}
+                        className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 hover:border-gray-500 text-gray-300"
+                        title="Octave down (Z)"
+                    >
+                        Z −
+                    </button>
+                    <button
+                        onClick={() => onOctaveChange(Math.min(MAX_OCTAVE, octave + 1))}
+                        className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 hover:border-gray-500 text-gray-300"
+                        title="Octave up (X)"
+                    >
+                        + X
+                    </button>
+                </div>
+                <span>Octave {octave}</span>
+            </div>
+            <div className="relative flex-1 h-16">
+                {KEY_LAYOUT.map((k, i) => !isBlack(i) && renderKey(i, k.label))}
+                {KEY_LAYOUT.map((k, i) => isBlack(i) && renderKey(i, k.label))}
+            </div>
+            <div className="text-[10px] text-gray-500 w-28 leading-tight">
+                {fundamental
+                    ? <>Stack root {fundamental.toFixed(1)} Hz is moved to each key, keeping every layer's ratio.</>
+                    : <>Unmute a layer to play.</>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { Lesson, Wave } from '../../types';
+import { isGoalMet } from '../../utils/lessons';
+
+interface LessonPlayerProps {
+    lesson: Lesson;
+    stepIndex: number;
+    waves: Wave[];
+    onStep: (index: number) => void;
+    onExit: () => void;
+}
+
+// Narration panel for a running lesson. Next unlocks once the step's goal has been reached
+// (it stays unlocked if the slider moves on afterwards). Keyed by step in App, so state resets per step.
+export const LessonPlayer: React.FC<LessonPlayerProps> = ({ lesson, stepIndex, waves, onStep, onExit }) => {
+    const step = lesson.steps[stepIndex];
+    const isLast = stepIndex === lesson.steps.length - 1;
+    const [reached, setReached] = useState(false);
+    const goalMet = !!step.goal && isGoalMet(step.goal, waves);
+
+    useEffect(() => {
+        if (goalMet) setReached(true);
+    }, [goalMet]);
+
+    const canAdvance = !step.goal || reached;
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 p-4 space-y-3 animate-fade-in">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <div className="text-[10px] font-bold text-amber-600 uppercase tracking-wider">
+                        {lesson.title} · Step {stepIndex + 1} of {lesson.steps.length}
+                    </div>
+                    <h4 className="text-sm font-bold text-gray-900 mt-0.5">{step.title}</h4>
+                </div>
+                <button onClick={onExit} title="End lesson" className="text-gray-400 hover:text-gray-600 p-1.5 rounded hover:bg-gray-100">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </div>
+
+            <p className="text-sm text-gray-600 leading-relaxed">{step.text}</p>
+
+            {step.goal && (
+                <div className={`flex items-center gap-2 text-xs font-medium rounded-lg px-3 py-2 border ${reached ? 'bg-green-50 border-green-100 text-green-700' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+                    <span>{reached ? '✓' : '→'}</span>
+                    <span>{reached ? `Done: ${step.goal.task}` : step.goal.task}</span>
+                </div>
+            )}
+
+            <div className="flex items-center gap-2">
+                <div className="flex gap-1 mr-auto">
+                    {lesson.steps.map((_, i) => (
+                        <span key={i} className={`h-1.5 w-5 rounded-full ${i < stepIndex ? 'bg-amber-400' : i === stepIndex ? 'bg-amber-600' : 'bg-gray-200'}`} />
+                    ))}
+                </div>
+                <button
+                    onClick={() => onStep(stepIndex - 1)}
+                    disabled={stepIndex === 0}
+                    className="px-3 py-1.5 text-xs font-medium rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                >
+                    Back
+                </button>
+                <button
+                    onClick={() => isLast ? onExit() : onStep(stepIndex + 1)}
+                    disabled={!canAdvance}
+                    title={canAdvance ? undefined : 'Complete the task to continue'}
+                    className="px-4 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-xs font-medium rounded-lg shadow-sm disabled:opacity-40 disabled:pointer-events-none transition-all"
+                >
+                    {isLast ? 'Finish' : 'Next'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Lesson } from '../../types';
+import { LESSONS } from '../../utils/lessons';
+
+interface LessonsDialogProps {
+    onStart: (lesson: Lesson) => void;
+    onClose: () => void;
+}
+
+export const LessonsDialog: React.FC<LessonsDialogProps> = ({ onStart, onClose }) => {
+    return (
+        <div className="fixed inset-0 z-40 bg-gray-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-[90vh] flex flex-col bg-white rounded-xl shadow-xl border border-gray-100 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Lessons</h2>
+                        <p className="text-gray-500 text-sm mt-1">
+                            Step-by-step walkthroughs. Each step sets up the layers and view; some ask you to move a slider before you continue.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto -mx-2 px-2 space-y-2">
+                    {LESSONS.map(lesson => (
+                        <button
+                            key={lesson.id}
+                            onClick={() => onStart(lesson)}
+                            className="w-full text-left p-3 rounded-lg border border-gray-100 hover:border-amber-300 hover:bg-amber-50/40 transition-colors"
+                        >
+                            <div className="flex justify-between items-baseline gap-2">
+                                <span className="text-sm font-medium text-gray-900">{lesson.title}</span>
+                                <span className="text-[11px] text-gray-400 whitespace-nowrap">{lesson.steps.length} steps</span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-0.5">{lesson.summary}</p>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { MasterBusSettings } from '../../types';
+import { MeterReading } from '../../hooks/useAudio';
+import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
+import { gainToDb, CLIP_LEVEL } from '../../utils/masterBus';
+
+interface MasterMeterProps {
+    settings: MasterBusSettings;
+    onChange: (settings: MasterBusSettings) => void;
+    readMeter: () => MeterReading;
+}
+
+// Meter scale, dBFS
+const METER_FLOOR_DB = -48;
+const METER_CEIL_DB = 3;
+// Peak-hold marker falls this many dB per second
+const PEAK_FALL_DB = 12;
+
+const dbToFraction = (db: number) => Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / (METER_CEIL_DB - METER_FLOOR_DB)));
+
+// Master volume, limiter/auto-gain switches and the output peak meter with a latching clip light
+export const MasterMeter: React.FC<MasterMeterProps> = ({ settings, onChange, readMeter }) => {
+    const [clipped, setClipped] = useState(false);
+    const holdRef = useRef(METER_FLOOR_DB);
+    const update = (updates: Partial<MasterBusSettings>) => onChange({ ...settings, ...updates });
+
+    const canvasRef = useCanvasAnimation((ctx, time, deltaTime, width, height) => {
+        const { peak, reduction } = readMeter();
+        const db = gainToDb(peak);
+        if (peak >= CLIP_LEVEL && !clipped) setClipped(true);
+        holdRef.current = Math.max(db, holdRef.current - PEAK_FALL_DB * deltaTime);
+
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = '#1f2937';
+        ctx.fillRect(0, 0, width, height);
+
+        // Green up to -12, amber to -3, red above
+        const level = dbToFraction(db) * width;
+        const zones: [number, number, string][] = [[METER_FLOOR_DB, -12, '#10b981'], [-12, -3, '#f59e0b'], [-3, METER_CEIL_DB, '#ef4444']];
+        zones.forEach(([from, to, color]) => {
+            const x0 = dbToFraction(from) * width;
+            const x1 = Math.min(level, dbToFraction(to) * width);
+            if (x1 <= x0) return;
+            ctx.fillStyle = color;
+            ctx.fillRect(x0, 0, x1 - x0, height);
+        });
+
+        // 0 dBFS tick and peak hold
+        ctx.fillStyle = '#9ca3af';
+        ctx.fillRect(dbToFraction(0) * width, 0, 1, height);
+        if (holdRef.current > METER_FLOOR_DB) {
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(dbToFraction(holdRef.current) * width - 1, 0, 2, height);
+        }
+
+        // Gain reduction hangs from the top, right to left from 0 dBFS
+        if (reduction < -0.1) {
+            const grWidth = Math.min(width, (-reduction / (METER_CEIL_DB - METER_FLOOR_DB)) * width);
+            ctx.fillStyle = 'rgba(129, 140, 248, 0.8)';
+            ctx.fillRect(dbToFraction(0) * width - grWidth, 0, grWidth, Math.max(2, height * 0.25));
+        }
+    }, []);
+
+    return (
+        <div className="flex items-center gap-2">
+            <input
+                type="range"
+                min="0" max="1" step="0.01"
+                value={settings.volume}
+                onChange={e => update({ volume: parseFloat(e.target.value) })}
+                title={`Master volume ${Math.round(settings.volume * 100)}%`}
+                className="w-14 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+            <canvas
+                ref={canvasRef}
+                className="w-20 h-2.5 rounded-sm block"
+                title="Output peak (dBFS) • White: peak hold • Top bar: limiter gain reduction"
+            />
+            <button
+                onClick={() => setClipped(false)}
+                title={clipped ? 'Output reached 0 dBFS. Click to reset.' : 'Clip indicator'}
+                className={`px-1 py-0.5 rounded text-[9px] font-bold border transition-colors ${clipped ? 'bg-red-600 text-white border-red-500' : 'bg-gray-800 text-gray-600 border-gray-700'}`}
+            >
+                CLIP
+            </button>
+            <button
+                onClick={() => update({ limiter: !settings.limiter })}
+                title="Limiter on the master output"
+                className={`px-1 py-0.5 rounded text-[9px] font-bold border transition-colors ${settings.limiter ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-gray-800 text-gray-500 border-gray-700 hover:border-gray-500'}`}
+            >
+                LIM
+            </button>
+            <button
+                onClick={() => update({ autoGain: !settings.autoGain })}
+                title="Automatic gain: scale the stack by its summed peak instead of a fixed level"
+                className={`px-1 py-0.5 rounded text-[9px] font-bold border transition-colors ${settings.autoGain ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-gray-800 text-gray-500 border-gray-700 hover:border-gray-500'}`}
+            >
+                AUTO
+            </button>
+        </div>
+    );
+};
@@ -1,22 +1,60 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Wave } from '../../types';
+import { Wave, AudioMapping, PlayMode, MasterBusSettings, ViewMode, ViewState, ViewConfig } from '../../types';
 import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
 import { useAudio } from '../../hooks/useAudio';
+import { useComputerKeyboard } from '../../hooks/useComputerKeyboard';
+import { KeyboardStrip } from './KeyboardStrip';
+import { MasterMeter } from './MasterMeter';
+import { DEFAULT_MASTER_BUS } from '../../utils/masterBus';
+import { captureThumbnail, MIN_VIEW_ZOOM, MAX_VIEW_ZOOM } from '../../utils/scenes';
+import { noteFrequency, stackFundamental, toAudioFreq } from '../../utils/pitch';
+import { synthesize, isActiveWave, waveToPartial, worstCasePeak, stackPeak } from '../../utils/synth';
+import { shapeFunction } from '../../utils/shapes';
+import { getEnvelope, envelopeLevel, synthesizeNote, ENVELOPE_PREVIEW_HOLD } from '../../utils/envelope';
+import {
+    SpectrumSettings, getSpectrumAxes, getSpectrumPlotArea, freqToX, ampToLevel, levelToY,
+    getFrequencyTicks, getLevelTicks, ampToDb, formatFrequency, SPECTRUM_FLOOR_DB
+} from '../../utils/spectrum';
+import { STFTSettings, WindowType, WINDOW_LABELS, analyzeFrame } from '../../utils/stft';
 
 interface MasterOutputProps {
     waves: Wave[];
+    audioMapping: AudioMapping;
+    view: ViewConfig;
+    onViewChange: (update: (prev: ViewConfig) => ViewConfig) => void;
+    // Filled in with a function that snapshots the current view as a small image (scene thumbnails)
+    captureRef?: React.MutableRefObject<(() => string | null) | null>;
 }
 
-type ViewMode = 'time' | 'lissajous' | 'xyz' | 'chladni' | 'fluid' | 'water';
-
-interface ViewState {
-    zoom: number;
-    pan: { x: number; y: number };
-}
-
-export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
-    const [viewMode, setViewMode] = useState<ViewMode>('time');
-    const { isPlaying, toggleAudio } = useAudio(waves);
+// Spectrogram analysis runs at a fixed rate (samples per simulated second), comfortably above
+// twice the highest layer frequency (MAX_LAYER_FREQUENCY, 144) so nothing aliases.
+const SPECTROGRAM_SAMPLE_RATE = 512;
+const SPECTROGRAM_COLUMNS = 240;
+const SPECTROGRAM_SIZES = [64, 128, 256, 512, 1024, 2048];
+const SPECTROGRAM_HOPS = [8, 16, 32, 64, 128, 256];
+
+// Phasors spin in slow motion (a layer at 1 Hz takes 10 s per turn at 1x speed),
+// otherwise anything above a few Hz is a blur.
+const PHASOR_TIME_SCALE = 0.1;
+const PHASOR_HISTORY = 2;
+
+export const MasterOutput: React.FC<MasterOutputProps> = ({ waves, audioMapping, view, onViewChange, captureRef }) => {
+    // View mode, per-view zoom/pan and speed are owned by the App so scenes can save and restore them
+    const { mode: viewMode, settings: viewSettings, speed } = view;
+    const setViewMode = (mode: ViewMode) => onViewChange(prev => ({ ...prev, mode }));
+    const setSpeed = (value: number) => onViewChange(prev => ({ ...prev, speed: value }));
+    const setViewSettings = (update: (prev: Record<ViewMode, ViewState>) => Record<ViewMode, ViewState>) =>
+        onViewChange(prev => ({ ...prev, settings: update(prev.settings) }));
+
+    // Note mode: layers stay silent until triggered, then follow their ADSR envelopes
+    const [playMode, setPlayMode] = useState<PlayMode>('drone');
+    const [masterBus, setMasterBus] = useState<MasterBusSettings>(DEFAULT_MASTER_BUS);
+    const { isPlaying, toggleAudio, noteOn, noteOff, keyOn, keyOff, readMeter } = useAudio(waves, playMode, audioMapping, masterBus);
+    // Wall-clock note times (seconds) for the envelope playhead
+    const noteTimesRef = useRef<{ start: number, release: number | null } | null>(null);
+
+    // Time view window: one scrolling cycle, or a whole note with its envelopes
+    const [timeWindow, setTimeWindow] = useState<'cycle' | 'envelope'>('cycle');
     const [status, setStatus] = useState<{ text: string, type: 'normal' | 'destructive' | 'silence' }>({
         text: 'Initializing...', type: 'normal'
     });
@@ -26,27 +64,33 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
     const isResizing = useRef(false);
 
     // Speed Control
-    const [speed, setSpeed] = useState(1);
     const simTimeRef = useRef(0);
 
     // Auto Rotation State for XYZ
     const [isAutoRotating, setIsAutoRotating] = useState(true);
     const autoRotRef = useRef(0);
 
-    // View Controls State (Persisted per view)
-    const [viewSettings, setViewSettings] = useState<Record<ViewMode, ViewState>>({
-        time: { zoom: 1, pan: { x: 0, y: 0 } },
-        lissajous: { zoom: 1, pan: { x: 0, y: 0 } },
-        xyz: { zoom: 0.8, pan: { x: 0, y: 0 } },
-        chladni: { zoom: 0.6, pan: { x: 0, y: 0 } },
-        fluid: { zoom: 0.6, pan: { x: 0, y: 0 } },
-        water: { zoom: 1, pan: { x: 0, y: 0 } }
-    });
 
     // Derived values for current view
     const zoom = viewSettings[viewMode].zoom;
     const pan = viewSettings[viewMode].pan;
 
+    // Spectrum View Options
+    const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>({ style: 'stem', scale: 'linear', logFreq: false });
+    const [spectrumHover, setSpectrumHover] = useState<{ id: number, x: number, y: number } | null>(null);
+
+    // Spectrogram (STFT) State
+    const [spectrogramSettings, setSpectrogramSettings] = useState<STFTSettings>({ window: 'hann', size: 512, hop: 32 });
+    const spectrogramRef = useRef<{ columns: Float32Array[], nextTime: number | null, image: HTMLCanvasElement | null }>({
+        columns: [], nextTime: null, image: null
+    });
+
+    // Old columns were computed with different parameters, start a fresh history
+    useEffect(() => {
+        spectrogramRef.current.columns = [];
+        spectrogramRef.current.nextTime = null;
+    }, [spectrogramSettings]);
+
     const [isDragging, setIsDragging] = useState(false);
     const lastPos = useRef({ x: 0, y: 0 });
     const containerRef = useRef<HTMLDivElement>(null);
@@ -63,7 +107,7 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
                 
                 setViewSettings(prev => {
                     const current = prev[viewMode];
-                    const newZoom = Math.max(0.1, Math.min(10, current.zoom * (1 + delta)));
+                    const newZoom = Math.max(MIN_VIEW_ZOOM, Math.min(MAX_VIEW_ZOOM, current.zoom * (1 + delta)));
                     return {
                         ...prev,
                         [viewMode]: { ...current, zoom: newZoom }
@@ -108,13 +152,10 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
         document.body.style.cursor = 'ns-resize';
     };
 
-    // Helper to check if wave contributes
-    const isActive = (w: Wave) => !w.muted && w.amp > 0;
-
     const canvasRef = useCanvasAnimation((ctx, _totalTime, deltaTime, width, height) => {
         const cx = width / 2;
         const cy = height / 2;
-        const activeWaves = waves.filter(isActive);
+        const activeWaves = waves.filter(isActiveWave);
 
         // Update Simulation Time
         simTimeRef.current += deltaTime * speed;
@@ -128,8 +169,95 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
             if (viewMode !== 'fluid' && viewMode !== 'xyz') ctx.clearRect(0, 0, width, height);
         }
 
+        // --- TIME DOMAIN: WHOLE NOTE WITH ENVELOPES ---
+        if (viewMode === 'time' && timeWindow === 'envelope') {
+            const envelopes = activeWaves.map(getEnvelope);
+            const gate = Math.max(ENVELOPE_PREVIEW_HOLD, ...envelopes.map(e => e.attack + e.decay));
+            const duration = gate + Math.max(0.1, ...envelopes.map(e => e.release));
+            const toX = (t: number) => (t / duration) * width;
+            const pixelScale = height / 2.5;
+
+            // Seconds grid
+            ctx.font = '10px ui-monospace, monospace';
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+            ctx.lineWidth = 1;
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'bottom';
+            const step = duration > 4 ? 1 : duration > 1.5 ? 0.5 : duration > 0.6 ? 0.2 : 0.1;
+            ctx.beginPath();
+            for (let t = 0; t <= duration + 1e-9; t += step) {
+                ctx.moveTo(toX(t), 0);
+                ctx.lineTo(toX(t), height);
+                ctx.fillText(`${+t.toFixed(1)}s`, toX(t) + 3, height - 4);
+            }
+            ctx.moveTo(0, cy);
+            ctx.lineTo(width, cy);
+            ctx.stroke();
+
+            // Note-off marker
+            ctx.setLineDash([4, 4]);
+            ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)';
+            ctx.beginPath();
+            ctx.moveTo(toX(gate), 0);
+            ctx.lineTo(toX(gate), height);
+            ctx.stroke();
+            ctx.setLineDash([]);
+            ctx.fillStyle = 'rgba(251, 191, 36, 0.7)';
+            ctx.fillText('note off', toX(gate) + 3, 14);
+
+            if (activeWaves.length === 0) return;
+
+            // Composite signal as a min/max band per pixel column, so dense oscillations read as a filled envelope
+            const oversample = 4;
+            const samples = synthesizeNote(waves, { sampleRate: (width * oversample) / duration, duration, gate });
+            ctx.fillStyle = 'rgba(16, 185, 129, 0.55)'; // Emerald
+            for (let x = 0; x < width; x++) {
+                let min = 0;
+                let max = 0;
+                for (let i = x * oversample; i < Math.min(samples.length, (x + 1) * oversample); i++) {
+                    min = Math.min(min, samples[i]);
+                    max = Math.max(max, samples[i]);
+                }
+                ctx.fillRect(x, cy - max * pixelScale, 1, Math.max(1, (max - min) * pixelScale));
+            }
+
+            // Per-layer envelope outlines, scaled by each layer's amplitude and by the same factor as the band
+            const peak = stackPeak(waves);
+            const scale = peak > 1.2 ? 1.2 / peak : 1;
+            ctx.lineWidth = 1.5;
+            activeWaves.forEach((w, i) => {
+                ctx.strokeStyle = w.color;
+                ctx.beginPath();
+                for (let x = 0; x <= width; x += 2) {
+                    const level = envelopeLevel(envelopes[i], (x / width) * duration, gate) * (w.amp / 100) * scale;
+                    const y = cy - level * pixelScale;
+                    if (x === 0) ctx.moveTo(x, y);
+                    else ctx.lineTo(x, y);
+                }
+                ctx.stroke();
+            });
+
+            // Playhead of the live note: runs up to note-off while held, then through the release
+            const note = noteTimesRef.current;
+            if (note) {
+                const now = performance.now() / 1000;
+                const t = note.release === null
+                    ? Math.min(now - note.start, gate)
+                    : Math.min(note.release - note.start, gate) + (now - note.release);
+                if (t <= duration) {
+                    ctx.strokeStyle = '#ffffff';
+                    ctx.lineWidth = 2;
+                    ctx.beginPath();
+                    ctx.moveTo(toX(t), 0);
+                    ctx.lineTo(toX(t), height);
+                    ctx.stroke();
+                }
+            }
+        }
+
         // --- TIME DOMAIN ---
-        if (viewMode === 'time') {
+        else if (viewMode === 'time') {
             // Grid Axis
             ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
             ctx.lineWidth = 1;
@@ -150,21 +278,19 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
                 return;
             }
 
-            let maxPossibleAmp = activeWaves.reduce((sum, w) => sum + w.amp, 0);
-            const scale = maxPossibleAmp > 120 ? (120 / maxPossibleAmp) : 1;
-            let currentMaxY = 0;
-
-            for (let x = 0; x < width; x+=1) {
-                const t = x / width;
-                let ySum = 0;
-
-                for (const wave of activeWaves) {
-                    const phaseRad = (wave.phase * Math.PI) / 180;
-                    ySum += (wave.amp / 100) * (height / 2.5) * Math.sin(2 * Math.PI * wave.freq * t + phaseRad - (time * 2));
-                }
+            // Limit the worst-case composite to 120% of a single full-amplitude layer
+            const samples = synthesize(activeWaves, {
+                sampleRate: width,
+                duration: 1,
+                phaseShift: -time * 2,
+                normalize: 'limit',
+                limit: 1.2,
+                sources: waves
+            });
+            const pixelScale = height / 2.5;
 
-                ySum *= scale;
-                if (Math.abs(ySum) > currentMaxY) currentMaxY = Math.abs(ySum);
+            for (let x = 0; x < samples.length; x++) {
+                const ySum = samples[x] * pixelScale;
 
                 if (x === 0) ctx.moveTo(x, cy - ySum);
                 else ctx.lineTo(x, cy - ySum);
@@ -173,6 +299,283 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
             ctx.shadowBlur = 0;
         } 
         
+        // --- ROTATING PHASORS (TIP-TO-TAIL) ---
+        else if (viewMode === 'phasor') {
+            const tau = time * PHASOR_TIME_SCALE;
+            const partials = activeWaves.map(waveToPartial);
+
+            // Left: phasor diagram. Scaled so the longest possible chain still fits.
+            const diagramSize = Math.min(height, width * 0.45);
+            const originX = diagramSize / 2 + 10;
+            const originY = cy;
+            const pixelScale = (diagramSize / 2 - 16) / Math.max(1, worstCasePeak(partials));
+
+            // Axes
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+            ctx.lineWidth = 1;
+            ctx.beginPath();
+            ctx.moveTo(originX, originY - diagramSize / 2);
+            ctx.lineTo(originX, originY + diagramSize / 2);
+            ctx.moveTo(0, originY);
+            ctx.lineTo(width, originY);
+            ctx.stroke();
+
+            // Chain each layer's vector onto the tip of the previous one
+            let tipX = originX;
+            let tipY = originY;
+            activeWaves.forEach((wave, i) => {
+                const p = partials[i];
+                const angle = 2 * Math.PI * p.freq * tau + p.phase;
+                const length = p.amp * pixelScale;
+                const nextX = tipX + length * Math.cos(angle);
+                const nextY = tipY - length * Math.sin(angle);
+
+                // Orbit of this phasor
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+                ctx.lineWidth = 1;
+                ctx.beginPath();
+                ctx.arc(tipX, tipY, length, 0, Math.PI * 2);
+                ctx.stroke();
+
+                // Vector + arrowhead
+                ctx.strokeStyle = wave.color;
+                ctx.fillStyle = wave.color;
+                ctx.lineWidth = 2.5;
+                ctx.beginPath();
+                ctx.moveTo(tipX, tipY);
+                ctx.lineTo(nextX, nextY);
+                ctx.stroke();
+
+                const head = Math.min(8, length * 0.4);
+                const dir = Math.atan2(nextY - tipY, nextX - tipX);
+                ctx.beginPath();
+                ctx.moveTo(nextX, nextY);
+                ctx.lineTo(nextX - head * Math.cos(dir - 0.4), nextY - head * Math.sin(dir - 0.4));
+                ctx.lineTo(nextX - head * Math.cos(dir + 0.4), nextY - head * Math.sin(dir + 0.4));
+                ctx.closePath();
+                ctx.fill();
+
+                tipX = nextX;
+                tipY = nextY;
+            });
+
+            // Right: the vertical projection of the tip over time, newest sample at the left edge
+            const traceLeft = diagramSize + 30;
+            const traceWidth = Math.max(1, width - traceLeft - 10);
+            const samples = synthesize(activeWaves, {
+                sampleRate: traceWidth / PHASOR_HISTORY,
+                duration: PHASOR_HISTORY,
+                t0: tau - PHASOR_HISTORY,
+                sources: waves
+            });
+
+            // Projection line from the tip to the trace
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            ctx.moveTo(tipX, tipY);
+            ctx.lineTo(traceLeft, tipY);
+            ctx.stroke();
+            ctx.setLineDash([]);
+
+            ctx.beginPath();
+            ctx.strokeStyle = '#10B981'; // Emerald, same as the time view
+            ctx.lineWidth = 3;
+            ctx.lineJoin = 'round';
+            ctx.shadowBlur = 8;
+            ctx.shadowColor = ctx.strokeStyle;
+            for (let i = samples.length - 1; i >= 0; i--) {
+                const x = traceLeft + (samples.length - 1 - i);
+                const y = originY - samples[i] * pixelScale;
+                if (i === samples.length - 1) ctx.moveTo(x, y);
+                else ctx.lineTo(x, y);
+            }
+            ctx.stroke();
+            ctx.shadowBlur = 0;
+
+            // Pen tip
+            ctx.fillStyle = '#ffffff';
+            ctx.beginPath();
+            ctx.arc(tipX, tipY, 4, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        // --- FREQUENCY DOMAIN (SPECTRUM) ---
+        else if (viewMode === 'spectrum') {
+            const axes = getSpectrumAxes(waves, spectrumSettings);
+            const plot = getSpectrumPlotArea(width, height);
+
+            // Grid + Axis Labels
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+            ctx.lineWidth = 1;
+            ctx.font = '10px ui-monospace, monospace';
+
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'top';
+            ctx.beginPath();
+            getFrequencyTicks(axes).forEach(f => {
+                const x = freqToX(f, axes, plot);
+                ctx.moveTo(x, plot.top);
+                ctx.lineTo(x, plot.bottom);
+                ctx.fillText(formatFrequency(f), x, plot.bottom + 8);
+            });
+
+            ctx.textAlign = 'right';
+            ctx.textBaseline = 'middle';
+            getLevelTicks(spectrumSettings.scale).forEach(({ level, label }) => {
+                const y = levelToY(level, plot);
+                ctx.moveTo(plot.left, y);
+                ctx.lineTo(plot.right, y);
+                ctx.fillText(label, plot.left - 6, y);
+            });
+            ctx.stroke();
+
+            // Baseline
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+            ctx.beginPath();
+            ctx.moveTo(plot.left, plot.bottom);
+            ctx.lineTo(plot.right, plot.bottom);
+            ctx.stroke();
+
+            // Muted layers first as ghosts, so live stems draw on top
+            const ordered = [...waves.filter(w => w.muted), ...activeWaves];
+            const barWidth = 10;
+
+            ordered.forEach(wave => {
+                const x = freqToX(wave.freq, axes, plot);
+                const y = levelToY(ampToLevel(wave.amp, spectrumSettings.scale), plot);
+                const isHovered = spectrumHover?.id === wave.id;
+
+                ctx.globalAlpha = wave.muted ? 0.3 : 1;
+                ctx.strokeStyle = wave.color;
+                ctx.fillStyle = wave.color;
+                ctx.lineWidth = isHovered ? 4 : 2;
+                if (wave.muted) ctx.setLineDash([4, 4]);
+                else ctx.setLineDash([]);
+
+                if (spectrumSettings.style === 'bar') {
+                    if (wave.muted) ctx.strokeRect(x - barWidth / 2, y, barWidth, plot.bottom - y);
+                    else ctx.fillRect(x - barWidth / 2, y, barWidth, plot.bottom - y);
+                } else {
+                    ctx.beginPath();
+                    ctx.moveTo(x, plot.bottom);
+                    ctx.lineTo(x, y);
+                    ctx.stroke();
+
+                    ctx.beginPath();
+                    ctx.arc(x, y, isHovered ? 6 : 4, 0, Math.PI * 2);
+                    if (wave.muted) ctx.stroke();
+                    else ctx.fill();
+                }
+            });
+            ctx.globalAlpha = 1;
+            ctx.setLineDash([]);
+        }
+
+        // --- TIME-FREQUENCY DOMAIN (SPECTROGRAM) ---
+        else if (viewMode === 'spectrogram') {
+            const { size, hop, window: windowType } = spectrogramSettings;
+            const sg = spectrogramRef.current;
+            const frameDuration = size / SPECTROGRAM_SAMPLE_RATE;
+            const hopDuration = hop / SPECTROGRAM_SAMPLE_RATE;
+
+            // 1. Catch up on every frame that ended since the last paint.
+            // If we fell further behind than the visible history (e.g. tab was hidden), skip ahead.
+            if (sg.nextTime === null || time - sg.nextTime > hopDuration * SPECTROGRAM_COLUMNS) {
+                sg.nextTime = time;
+            }
+            let added = 0;
+            while (sg.nextTime <= time && added < SPECTROGRAM_COLUMNS) {
+                const frame = synthesize(activeWaves, {
+                    sampleRate: SPECTROGRAM_SAMPLE_RATE,
+                    duration: frameDuration,
+                    t0: sg.nextTime - frameDuration,
+                    sources: waves
+                });
+                sg.columns.push(analyzeFrame(frame, windowType));
+                sg.nextTime += hopDuration;
+                added++;
+            }
+            if (sg.columns.length > SPECTROGRAM_COLUMNS) {
+                sg.columns.splice(0, sg.columns.length - SPECTROGRAM_COLUMNS);
+            }
+
+            // 2. Frequency axis (linear, 0 up to the highest layer, capped at Nyquist)
+            const binHz = SPECTROGRAM_SAMPLE_RATE / size;
+            const nyquist = SPECTROGRAM_SAMPLE_RATE / 2;
+            const axes = { ...getSpectrumAxes(waves, { ...spectrumSettings, logFreq: false }), scale: 'linear' as const };
+            axes.maxFreq = Math.min(nyquist, axes.maxFreq);
+            const visibleBins = Math.min(Math.floor(size / 2) + 1, Math.ceil(axes.maxFreq / binHz) + 1);
+            const plot = getSpectrumPlotArea(width, height);
+            const plotHeight = plot.bottom - plot.top;
+            const freqToY = (f: number) => plot.bottom - (f / axes.maxFreq) * plotHeight;
+
+            // 3. Rebuild the heatmap bitmap (one pixel per column/bin) when new data arrived
+            if (!sg.image) sg.image = document.createElement('canvas');
+            const image = sg.image;
+            if (added > 0 || image.width !== SPECTROGRAM_COLUMNS || image.height !== visibleBins) {
+                image.width = SPECTROGRAM_COLUMNS;
+                image.height = visibleBins;
+                const imgCtx = image.getContext('2d');
+                if (imgCtx) {
+                    const imgData = imgCtx.createImageData(SPECTROGRAM_COLUMNS, visibleBins);
+                    const data = imgData.data;
+                    const offset = SPECTROGRAM_COLUMNS - sg.columns.length;
+
+                    for (let c = 0; c < sg.columns.length; c++) {
+                        const column = sg.columns[c];
+                        for (let k = 0; k < visibleBins && k < column.length; k++) {
+                            // dB mapped onto the same floor as the spectrum view
+                            const db = column[k] > 0 ? 20 * Math.log10(column[k]) : SPECTRUM_FLOOR_DB;
+                            const v = Math.max(0, Math.min(1, 1 - db / SPECTRUM_FLOOR_DB));
+                            const index = ((visibleBins - 1 - k) * SPECTROGRAM_COLUMNS + (offset + c)) * 4;
+
+                            // Dark violet -> magenta -> amber heat scale
+                            data[index]     = 12 + (243 * Math.min(1, v * 1.5));
+                            data[index + 1] = 8 + (232 * Math.max(0, (v - 0.45) / 0.55));
+                            data[index + 2] = 30 + (110 * Math.sin(Math.PI * v));
+                            data[index + 3] = 255;
+                        }
+                    }
+                    imgCtx.putImageData(imgData, 0, 0);
+                }
+            }
+
+            // 4. Stretch the bitmap over the plot, bin k centered on k * binHz
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(plot.left, plot.top, plot.right - plot.left, plotHeight);
+            ctx.clip();
+            const imageTop = freqToY((visibleBins - 0.5) * binHz);
+            const imageBottom = freqToY(-0.5 * binHz);
+            ctx.drawImage(image, plot.left, imageTop, plot.right - plot.left, imageBottom - imageTop);
+            ctx.restore();
+
+            // 5. Axes
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+            ctx.lineWidth = 1;
+            ctx.font = '10px ui-monospace, monospace';
+            ctx.textAlign = 'right';
+            ctx.textBaseline = 'middle';
+            ctx.beginPath();
+            getFrequencyTicks(axes).forEach(f => {
+                const y = freqToY(f);
+                ctx.moveTo(plot.left, y);
+                ctx.lineTo(plot.right, y);
+                ctx.fillText(formatFrequency(f), plot.left - 6, y);
+            });
+            ctx.stroke();
+
+            ctx.textBaseline = 'top';
+            ctx.textAlign = 'left';
+            ctx.fillText(`-${(SPECTROGRAM_COLUMNS * hopDuration).toFixed(1)}s`, plot.left, plot.bottom + 8);
+            ctx.textAlign = 'right';
+            ctx.fillText('now', plot.right, plot.bottom + 8);
+        }
+
         // --- LISSAJOUS DOMAIN (2D) ---
         else if (viewMode === 'lissajous') {
             // Axes
@@ -205,29 +608,16 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
 
             const segments = 500;
             const history = 2.0; 
+            // Modulation sources may be muted layers, so routes resolve against the full stack
+            const trail = { sampleRate: segments / history, duration: history, t0: time - history, normalize: 'sum' as const, sources: waves };
 
-            for (let i = 0; i < segments; i++) {
-                const t = time - (history * (1 - (i/segments)));
-                
-                const xPhase = (xWave.phase * Math.PI) / 180;
-                const xVal = Math.sin(2 * Math.PI * xWave.freq * t + xPhase);
-                
-                let yVal = 0;
-                if (yWaves.length > 0) {
-                    let yMaxAmp = yWaves.reduce((s, w) => s + w.amp, 0);
-                    yMaxAmp = yMaxAmp === 0 ? 1 : yMaxAmp;
-                    
-                    yWaves.forEach(w => {
-                        const wPhase = (w.phase * Math.PI) / 180;
-                        yVal += (w.amp) * Math.sin(2 * Math.PI * w.freq * t + wPhase);
-                    });
-                    yVal = yVal / yMaxAmp;
-                } else {
-                    yVal = 0;
-                }
+            // X follows the first layer alone, Y the normalized sum of the rest
+            const xSamples = synthesize([xWave], trail);
+            const ySamples = synthesize(yWaves, trail);
 
-                const plotX = cx + (xVal * radius);
-                const plotY = cy - (yVal * radius);
+            for (let i = 0; i < segments; i++) {
+                const plotX = cx + (xSamples[i] * radius);
+                const plotY = cy - (ySamples[i] * radius);
 
                 if (i === 0) ctx.moveTo(plotX, plotY);
                 else ctx.lineTo(plotX, plotY);
@@ -371,7 +761,9 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
             const waveParams = activeWaves.map(w => ({
                 amp: w.amp,
                 spatialFreq: w.freq * 2.0 * Math.PI,
-                angleBase: (w.phase * Math.PI / 180) - (time * w.freq * 5)
+                angleBase: (w.phase * Math.PI / 180) - (time * w.freq * 5),
+                // Spatial profile follows the layer's waveform (cos-aligned: sin shifted by a quarter cycle)
+                profile: shapeFunction(w.shape, w.harmonics)
             }));
 
             for (let y = 0; y < height; y++) {
@@ -385,7 +777,7 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
 
                     for (let i = 0; i < waveParams.length; i++) {
                         const w = waveParams[i];
-                        const spatialVal = Math.cos(w.spatialFreq * nx) + Math.cos(w.spatialFreq * ny);
+                        const spatialVal = w.profile(w.spatialFreq * nx + Math.PI / 2) + w.profile(w.spatialFreq * ny + Math.PI / 2);
                         reSum += w.amp * spatialVal * Math.cos(w.angleBase);
                         imSum += w.amp * spatialVal * Math.sin(w.angleBase);
                     }
@@ -655,11 +1047,15 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
             }
         }
 
-    }, [waves, viewMode, zoom, pan, height, isAutoRotating, speed]);
+    }, [waves, viewMode, zoom, pan, height, isAutoRotating, speed, timeWindow]);
+
+    if (captureRef) {
+        captureRef.current = () => canvasRef.current ? captureThumbnail(canvasRef.current) : null;
+    }
 
     // Status logic
     React.useEffect(() => {
-        const activeWaves = waves.filter(isActive);
+        const activeWaves = waves.filter(isActiveWave);
         const totalAmp = activeWaves.reduce((s, w) => s + w.amp, 0);
         
         if (totalAmp === 0) {
@@ -668,14 +1064,11 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
         }
 
         if (viewMode === 'time' && activeWaves.length > 1) {
+            // Coarse scan over one time unit, compared in the 0-100 amplitude scale
+            const samples = synthesize(activeWaves, { sampleRate: 20, duration: 1, sources: waves });
             let maxObserved = 0;
-            for (let t = 0; t < 1; t += 0.05) {
-                let ySum = 0;
-                for (const wave of activeWaves) {
-                    const phaseRad = (wave.phase * Math.PI) / 180;
-                    ySum += wave.amp * Math.sin(2 * Math.PI * wave.freq * t + phaseRad);
-                }
-                if (Math.abs(ySum) > maxObserved) maxObserved = Math.abs(ySum);
+            for (let i = 0; i < samples.length; i++) {
+                maxObserved = Math.max(maxObserved, Math.abs(samples[i]) * 100);
             }
 
             if (maxObserved < totalAmp * 0.1 && totalAmp > 10) {
@@ -687,6 +1080,12 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
         if (viewMode === 'lissajous') {
              if (activeWaves.length < 2) setStatus({ text: 'Lissajous needs 2+ layers', type: 'normal' });
              else setStatus({ text: 'XY Phase Plot', type: 'normal' });
+        } else if (viewMode === 'phasor') {
+             setStatus({ text: `Phasor Sum (${activeWaves.length} vector${activeWaves.length === 1 ? '' : 's'})`, type: 'normal' });
+        } else if (viewMode === 'spectrum') {
+             setStatus({ text: `${activeWaves.length} Active Partial${activeWaves.length === 1 ? '' : 's'}`, type: 'normal' });
+        } else if (viewMode === 'spectrogram') {
+             setStatus({ text: `STFT (Δf = ${(SPECTROGRAM_SAMPLE_RATE / spectrogramSettings.size).toFixed(2)} Hz)`, type: 'normal' });
         } else if (viewMode === 'xyz') {
              if (activeWaves.length < 3) setStatus({ text: 'XYZ needs 3 layers (X, Y, Z)', type: 'normal' });
              else setStatus({ text: 'XYZ 3D Lissajous Knot', type: 'normal' });
@@ -700,7 +1099,7 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
              setStatus({ text: 'Composite Wave', type: 'normal' });
         }
         
-    }, [waves, viewMode, zoom]);
+    }, [waves, viewMode, zoom, spectrogramSettings]);
 
     const statusColors = {
         normal: 'bg-gray-800 text-gray-400',
@@ -721,7 +1120,29 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
         lastPos.current = { x: e.clientX, y: e.clientY };
     };
 
+    // Hover readout for the spectrum: pick the stem closest to the cursor
+    const updateSpectrumHover = (e: React.MouseEvent) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const mx = e.clientX - rect.left;
+        const my = e.clientY - rect.top;
+        const axes = getSpectrumAxes(waves, spectrumSettings);
+        const plot = getSpectrumPlotArea(rect.width, rect.height);
+
+        let closestId: number | null = null;
+        let closestDist = 12; // px
+        for (const w of waves) {
+            const dist = Math.abs(freqToX(w.freq, axes, plot) - mx);
+            if (dist < closestDist) {
+                closestId = w.id;
+                closestDist = dist;
+            }
+        }
+
+        setSpectrumHover(closestId !== null ? { id: closestId, x: mx, y: my } : null);
+    };
+
     const handleMouseMove = (e: React.MouseEvent) => {
+        if (viewMode === 'spectrum') updateSpectrumHover(e);
         if (!isDragging || (viewMode !== 'chladni' && viewMode !== 'fluid' && viewMode !== 'water' && viewMode !== 'xyz')) return;
         const dx = e.clientX - lastPos.current.x;
         const dy = e.clientY - lastPos.current.y;
@@ -743,12 +1164,46 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
         setIsDragging(false);
     };
 
+    const handleNoteOn = () => {
+        noteOn();
+        noteTimesRef.current = { start: performance.now() / 1000, release: null };
+    };
+
+    const handleNoteOff = () => {
+        const note = noteTimesRef.current;
+        if (!note || note.release !== null) return;
+        noteOff();
+        note.release = performance.now() / 1000;
+    };
+
+    // Keyboard notes drive the envelope playhead too: it follows the latest key until all are released
+    const keyboard = useComputerKeyboard(
+        playMode === 'keys',
+        (midi) => {
+            keyOn(midi, noteFrequency(midi, audioMapping));
+            noteTimesRef.current = { start: performance.now() / 1000, release: null };
+        },
+        (midi, stillHeld) => {
+            keyOff(midi);
+            const note = noteTimesRef.current;
+            if (note && note.release === null && stillHeld === 0) note.release = performance.now() / 1000;
+        }
+    );
+    const fundamental = stackFundamental(waves);
+
+    const handleMouseLeave = () => {
+        setIsDragging(false);
+        setSpectrumHover(null);
+    };
+
+    const hoveredWave = viewMode === 'spectrum' && spectrumHover ? waves.find(w => w.id === spectrumHover.id) : undefined;
+
     return (
         <div className="bg-gray-900 rounded-xl shadow-xl border border-gray-800 p-4 relative transition-all duration-75 flex flex-col pb-6">
             <div className="flex flex-col md:flex-row justify-between items-center mb-3 gap-3 flex-none">
                 <div className="flex items-center gap-3 w-full md:w-auto">
                     <h2 className="text-white font-semibold text-sm tracking-wide hidden sm:block">
-                        {viewMode === 'time' ? 'Time Domain' : viewMode === 'lissajous' ? 'Lissajous (XY)' : viewMode === 'xyz' ? 'Lissajous (XYZ)' : viewMode === 'chladni' ? 'Cymatics (2D)' : viewMode === 'water' ? 'Water' : 'Oobleck (3D)'}
+                        {viewMode === 'time' ? 'Time Domain' : viewMode === 'phasor' ? 'Phasors' : viewMode === 'spectrum' ? 'Spectrum' : viewMode === 'spectrogram' ? 'Spectrogram' : viewMode === 'lissajous' ? 'Lissajous (XY)' : viewMode === 'xyz' ? 'Lissajous (XYZ)' : viewMode === 'chladni' ? 'Cymatics (2D)' : viewMode === 'water' ? 'Water' : 'Oobleck (3D)'}
                     </h2>
                     <div className="flex bg-gray-800 rounded-lg p-0.5 w-full sm:w-auto justify-center overflow-x-auto no-scrollbar">
                         <button 
@@ -757,6 +1212,24 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
                         >
                             Time
                         </button>
+                        <button 
+                            onClick={() => setViewMode('phasor')}
+                            className={`flex-1 sm:flex-none px-3 py-1 text-[10px] font-bold uppercase rounded-md transition-all whitespace-nowrap ${viewMode === 'phasor' ? 'bg-teal-600 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            Phasor
+                        </button>
+                        <button 
+                            onClick={() => setViewMode('spectrum')}
+                            className={`flex-1 sm:flex-none px-3 py-1 text-[10px] font-bold uppercase rounded-md transition-all whitespace-nowrap ${viewMode === 'spectrum' ? 'bg-emerald-600 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            Spectrum
+                        </button>
+                        <button 
+                            onClick={() => setViewMode('spectrogram')}
+                            className={`flex-1 sm:flex-none px-3 py-1 text-[10px] font-bold uppercase rounded-md transition-all whitespace-nowrap ${viewMode === 'spectrogram' ? 'bg-rose-600 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            STFT
+                        </button>
                         <button 
                             onClick={() => setViewMode('lissajous')}
                             className={`flex-1 sm:flex-none px-3 py-1 text-[10px] font-bold uppercase rounded-md transition-all whitespace-nowrap ${viewMode === 'lissajous' ? 'bg-pink-600 text-white shadow' : 'text-gray-400 hover:text-white'}`}
@@ -803,7 +1276,33 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
                     </div>
                 </div>
                 
-                <div className="flex items-center gap-2 w-full md:w-auto justify-end">
+                <div className="flex flex-wrap items-center gap-2 w-full md:w-auto justify-end">
+                    <div className="flex bg-gray-800 rounded p-0.5 border border-gray-700">
+                        {(['drone', 'note', 'keys'] as PlayMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setPlayMode(mode)}
+                                title={mode === 'drone' ? 'Layers play continuously' : mode === 'note' ? 'Layers play as triggered notes with ADSR envelopes' : 'Play the stack from the computer keyboard'}
+                                className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                                    playMode === mode ? 'bg-indigo-500/20 text-indigo-300' : 'text-gray-400 hover:text-gray-200'
+                                }`}
+                            >
+                                {mode === 'drone' ? 'Drone' : mode === 'note' ? 'Note' : 'Keys'}
+                            </button>
+                        ))}
+                    </div>
+                    {playMode === 'note' && (
+                        <button
+                            onPointerDown={handleNoteOn}
+                            onPointerUp={handleNoteOff}
+                            onPointerLeave={handleNoteOff}
+                            title="Hold to play all layers as one note"
+                            className="px-2 py-1 rounded text-xs font-medium transition-colors border bg-gray-800 text-gray-300 border-gray-700 hover:border-indigo-400 active:bg-indigo-600 active:text-white select-none"
+                        >
+                            Trigger
+                        </button>
+                    )}
+                    <MasterMeter settings={masterBus} onChange={setMasterBus} readMeter={readMeter} />
                     <button 
                         onClick={toggleAudio}
                         className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors border ${
@@ -840,7 +1339,7 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
                 onMouseDown={handleMouseDown}
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
+                onMouseLeave={handleMouseLeave}
                 style={{ 
                     cursor: (viewMode === 'chladni' || viewMode === 'fluid' || viewMode === 'water' || viewMode === 'xyz') ? (isDragging ? 'grabbing' : 'grab') : 'default',
                     height: `${height}px`
@@ -851,6 +1350,19 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
                     <div className="absolute top-1/2 left-0 w-full h-px bg-white opacity-10 pointer-events-none"></div>
                 )}
 
+                {/* Spectrum Hover Readout */}
+                {hoveredWave && spectrumHover && (
+                    <div
+                        className="absolute bg-gray-800/90 backdrop-blur-sm text-[10px] font-mono text-gray-200 px-2 py-1 rounded border border-gray-700 pointer-events-none shadow-lg z-20 whitespace-nowrap"
+                        style={{ left: spectrumHover.x + 12, top: Math.max(4, spectrumHover.y - 36) }}
+                    >
+                        <div className="font-bold" style={{ color: hoveredWave.color }}>
+                            Frequency {hoveredWave.id} {hoveredWave.muted && '(Muted)'}
+                        </div>
+                        <div>{hoveredWave.freq.toFixed(2)} Hz · {hoveredWave.amp.toFixed(1)}% ({ampToDb(hoveredWave.amp) === -Infinity ? '-∞' : ampToDb(hoveredWave.amp).toFixed(1)} dB) · {hoveredWave.phase.toFixed(0)}°</div>
+                    </div>
+                )}
+
                 {/* Resume Rotation Button for XYZ */}
                 {viewMode === 'xyz' && !isAutoRotating && (
                     <button
@@ -867,6 +1379,113 @@ export const MasterOutput: React.FC<MasterOutputProps> = ({ waves }) => {
                     </button>
                 )}
             </div>
+            {viewMode === 'spectrum' && (
+                <div className="mt-2 text-[10px] text-gray-500 flex flex-wrap justify-between items-center gap-2 px-1 flex-none">
+                    <div className="flex items-center gap-3">
+                        <div className="flex bg-gray-800 rounded p-0.5">
+                            {(['stem', 'bar'] as const).map(style => (
+                                <button
+                                    key={style}
+                                    onClick={() => setSpectrumSettings(prev => ({ ...prev, style }))}
+                                    className={`px-2 py-0.5 font-bold uppercase rounded transition-all ${spectrumSettings.style === style ? 'bg-emerald-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {style}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex bg-gray-800 rounded p-0.5">
+                            {(['linear', 'db'] as const).map(scale => (
+                                <button
+                                    key={scale}
+                                    onClick={() => setSpectrumSettings(prev => ({ ...prev, scale }))}
+                                    className={`px-2 py-0.5 font-bold uppercase rounded transition-all ${spectrumSettings.scale === scale ? 'bg-emerald-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {scale === 'db' ? 'dB' : 'Linear'}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-1.5 cursor-pointer select-none hover:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={spectrumSettings.logFreq}
+                                onChange={e => setSpectrumSettings(prev => ({ ...prev, logFreq: e.target.checked }))}
+                                className="rounded border-gray-600 bg-gray-800 text-emerald-600 focus:ring-emerald-500 w-3 h-3"
+                            />
+                            Log Frequency
+                        </label>
+                    </div>
+                    <span className="italic text-emerald-500/70">Hover a stem for details • Dashed = muted</span>
+                </div>
+            )}
+            {playMode === 'keys' && (
+                <KeyboardStrip
+                    octave={keyboard.octave}
+                    pressed={keyboard.pressed}
+                    fundamental={fundamental === null ? null : toAudioFreq(fundamental, audioMapping)}
+                    onOctaveChange={keyboard.setOctave}
+                    onPointerOn={keyboard.pointerOn}
+                    onPointerOff={keyboard.pointerOff}
+                />
+            )}
+            {viewMode === 'time' && (
+                <div className="mt-2 text-[10px] text-gray-500 flex flex-wrap justify-between items-center gap-2 px-1 flex-none">
+                    <div className="flex bg-gray-800 rounded p-0.5">
+                        {(['cycle', 'envelope'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setTimeWindow(option)}
+                                className={`px-2 py-0.5 font-bold uppercase rounded transition-all ${timeWindow === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {option === 'cycle' ? 'Cycle' : 'Whole Note'}
+                            </button>
+                        ))}
+                    </div>
+                    {timeWindow === 'envelope' && (
+                        <span className="italic text-indigo-400/70">Colored lines: each layer's ADSR envelope • Same partials, different envelopes, different instrument</span>
+                    )}
+                </div>
+            )}
+            {viewMode === 'spectrogram' && (
+                <div className="mt-2 text-[10px] text-gray-500 flex flex-wrap justify-between items-center gap-2 px-1 flex-none">
+                    <div className="flex items-center gap-3">
+                        <div className="flex bg-gray-800 rounded p-0.5">
+                            {(Object.keys(WINDOW_LABELS) as WindowType[]).map(type => (
+                                <button
+                                    key={type}
+                                    onClick={() => setSpectrogramSettings(prev => ({ ...prev, window: type }))}
+                                    className={`px-2 py-0.5 font-bold uppercase rounded transition-all ${spectrogramSettings.window === type ? 'bg-rose-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {WINDOW_LABELS[type]}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-1.5">
+                            <span className="font-bold uppercase">Window</span>
+                            <select
+                                value={spectrogramSettings.size}
+                                onChange={e => {
+                                    const size = parseInt(e.target.value);
+                                    setSpectrogramSettings(prev => ({ ...prev, size, hop: Math.min(prev.hop, size) }));
+                                }}
+                                className="bg-gray-800 text-gray-300 rounded px-1 py-0.5 border border-gray-700 focus:outline-none"
+                            >
+                                {SPECTROGRAM_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1.5">
+                            <span className="font-bold uppercase">Hop</span>
+                            <select
+                                value={spectrogramSettings.hop}
+                                onChange={e => setSpectrogramSettings(prev => ({ ...prev, hop: parseInt(e.target.value) }))}
+                                className="bg-gray-800 text-gray-300 rounded px-1 py-0.5 border border-gray-700 focus:outline-none"
+                            >
+                                {SPECTROGRAM_HOPS.filter(hop => hop <= spectrogramSettings.size).map(hop => <option key={hop} value={hop}>{hop}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <span className="italic text-rose-400/70">Longer windows resolve close partials • Shorter windows track fast changes</span>
+                </div>
+            )}
             {(viewMode === 'chladni' || viewMode === 'fluid' || viewMode === 'water' || viewMode === 'xyz') && (
                 <div className="mt-2 text-[10px] text-gray-500 flex justify-between px-1 flex-none">
                     <span className="flex items-center gap-2">
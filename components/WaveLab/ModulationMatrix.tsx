@@ -0,0 +1,165 @@
+import React from 'react';
+import { Wave, Modulation, ModulationType } from '../../types';
+import { RangeSlider } from '../ui/RangeSlider';
+
+interface ModulationMatrixProps {
+    waves: Wave[];
+    // All listed layers change in one undo step; continuous marks slider input
+    onChange: (changes: { id: number, updates: Partial<Wave> }[], continuous?: boolean) => void;
+    onClose: () => void;
+}
+
+const TYPE_LABELS: Record<ModulationType, string> = {
+    am: 'AM (Amplitude)',
+    fm: 'FM (Frequency)',
+    pm: 'PM (Phase)'
+};
+
+// Depth range per type: AM scales the carrier by 1 ± depth, FM depth is the modulation index,
+// PM depth is the peak phase deviation in radians
+const DEPTH_RANGE: Record<ModulationType, { max: number, step: number, label: string, initial: number }> = {
+    am: { max: 1, step: 0.01, label: 'Depth', initial: 0.5 },
+    fm: { max: 10, step: 0.1, label: 'Index', initial: 1 },
+    pm: { max: 2 * Math.PI, step: 0.01, label: 'Deviation (rad)', initial: 1 }
+};
+
+interface Route {
+    target: Wave;
+    index: number;
+    modulation: Modulation;
+}
+
+// Route list for inter-layer modulation. Routes live on the target layer's `modulators`.
+// Sources must be unmodulated layers, so a layer can't both modulate and be modulated (no chains).
+export const ModulationMatrix: React.FC<ModulationMatrixProps> = ({ waves, onChange, onClose }) => {
+    const routes: Route[] = waves.flatMap(target => (target.modulators ?? []).map((modulation, index) => ({ target, index, modulation })));
+    const sourceIds = new Set(routes.map(r => r.modulation.source));
+    const isSource = (id: number) => sourceIds.has(id);
+    const isTarget = (id: number) => (waves.find(w => w.id === id)?.modulators?.length ?? 0) > 0;
+
+    const setModulators = (target: Wave, modulators: Modulation[], continuous?: boolean) => onChange([{ id: target.id, updates: { modulators } }], continuous);
+
+    const withoutRoute = (route: Route) => (route.target.modulators ?? []).filter((_, i) => i !== route.index);
+
+    const updateRoute = (route: Route, updates: Partial<Modulation>, continuous?: boolean) => {
+        const list = [...(route.target.modulators ?? [])];
+        list[route.index] = { ...route.modulation, ...updates };
+        setModulators(route.target, list, continuous);
+    };
+
+    const removeRoute = (route: Route) => {
+        setModulators(route.target, withoutRoute(route));
+    };
+
+    // Both layers change together, so one undo restores the route where it was
+    const moveRoute = (route: Route, targetId: number) => {
+        const next = waves.find(w => w.id === targetId);
+        if (!next || next.id === route.target.id) return;
+        onChange([
+            { id: route.target.id, updates: { modulators: withoutRoute(route) } },
+            { id: next.id, updates: { modulators: [...(next.modulators ?? []), route.modulation] } }
+        ]);
+    };
+
+    const setType = (route: Route, type: ModulationType) => {
+        updateRoute(route, { type, depth: Math.min(route.modulation.depth, DEPTH_RANGE[type].max) });
+    };
+
+    // Picks the first free pairing: an existing source (or an unmodulated layer) driving a layer that isn't a source
+    const addRoute = () => {
+        const sources = waves.filter(w => !isTarget(w.id));
+        for (const source of [...sources.filter(w => isSource(w.id)), ...sources]) {
+            const target = waves.find(w => w.id !== source.id && !isSource(w.id));
+            if (target) {
+                setModulators(target, [...(target.modulators ?? []), { source: source.id, type: 'am', depth: DEPTH_RANGE.am.initial }]);
+                return;
+            }
+        }
+    };
+
+    const canAdd = waves.length > 1 && waves.some(s => !isTarget(s.id) && waves.some(t => t.id !== s.id && !isSource(t.id)));
+    const selectClass = "text-xs bg-gray-50 border border-gray-200 rounded px-1.5 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 space-y-3 animate-fade-in">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h4 className="text-sm font-bold text-gray-900">Modulation Routing</h4>
+                    <p className="text-[11px] text-gray-500">One layer reshapes another's amplitude, frequency or phase. Mute a source to hear only its effect.</p>
+                </div>
+                <button onClick={onClose} title="Close" className="text-gray-400 hover:text-gray-600 p-1.5 rounded hover:bg-gray-100">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </div>
+
+            {routes.length === 0 && (
+                <div className="text-xs text-gray-400 italic py-2">No routes yet. Every layer plays independently.</div>
+            )}
+
+            {routes.map(route => {
+                const { target, modulation } = route;
+                const range = DEPTH_RANGE[modulation.type];
+                const source = waves.find(w => w.id === modulation.source);
+                return (
+                    <div key={`${target.id}:${route.index}`} className="grid grid-cols-1 sm:grid-cols-[auto_auto_auto_1fr_auto] gap-2 sm:gap-3 items-center p-2 rounded-lg bg-gray-50/60 border border-gray-100">
+                        <select
+                            value={modulation.source}
+                            onChange={(e) => updateRoute(route, { source: parseInt(e.target.value) })}
+                            className={selectClass}
+                            style={{ color: source?.color }}
+                        >
+                            {waves.filter(w => w.id !== target.id && !isTarget(w.id)).map(w => (
+                                <option key={w.id} value={w.id}>Freq {w.id} ({w.freq}Hz)</option>
+                            ))}
+                        </select>
+                        <select
+                            value={modulation.type}
+                            onChange={(e) => setType(route, e.target.value as ModulationType)}
+                            className={selectClass}
+                        >
+                            {(Object.keys(TYPE_LABELS) as ModulationType[]).map(type => (
+                                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={target.id}
+                            onChange={(e) => moveRoute(route, parseInt(e.target.value))}
+                            className={selectClass}
+                            style={{ color: target.color }}
+                        >
+                            {waves.filter(w => w.id !== modulation.source && (w.id === target.id || !isSource(w.id))).map(w => (
+                                <option key={w.id} value={w.id}>→ Freq {w.id} ({w.freq}Hz)</option>
+                            ))}
+                        </select>
+                        <RangeSlider
+                            label={range.label}
+                            min={0} max={range.max} step={range.step}
+                            value={Math.round(modulation.depth * 100) / 100}
+                            color={source?.color}
+                            onChange={(e) => updateRoute(route, { depth: Math.max(0, Math.min(range.max, parseFloat(e.target.value) || 0)) }, true)}
+                        />
+                        <button
+                            onClick={() => removeRoute(route)}
+                            title="Remove Route"
+                            className="justify-self-end text-gray-400 hover:text-red-500 transition-colors p-1.5 rounded hover:bg-red-50"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+                );
+            })}
+
+            <button
+                onClick={addRoute}
+                disabled={!canAdd}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-dashed border-gray-300 text-gray-600 hover:border-indigo-400 hover:text-indigo-600 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+                + Add route
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Preset } from '../../types';
+import { PRESETS, DEFAULT_USER_CATEGORY, matchesPreset, groupPresets } from '../../utils/presets';
+import { VIEW_LABELS } from '../../utils/scenes';
+
+interface PresetMenuProps {
+    userPresets: Preset[];
+    error: string | null;
+    onApply: (preset: Preset) => void;
+    onSave: (title: string, category: string, description: string) => void;
+    onDelete: (id: string) => void;
+}
+
+// Physics Presets dropdown: built-in and user presets grouped by category, with search and a detail card
+export const PresetMenu: React.FC<PresetMenuProps> = ({ userPresets, error, onApply, onSave, onDelete }) => {
+    const [query, setQuery] = useState('');
+    const [hovered, setHovered] = useState<Preset | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [title, setTitle] = useState('');
+    const [category, setCategory] = useState(DEFAULT_USER_CATEGORY);
+    const [description, setDescription] = useState('');
+
+    const matches = [...PRESETS, ...userPresets].filter(p => matchesPreset(p, query));
+    const groups = groupPresets(matches);
+    const userCategories = Array.from(new Set(userPresets.map(p => p.category)));
+
+    const handleSave = () => {
+        onSave(title.trim() || `Preset ${userPresets.length + 1}`, category.trim() || DEFAULT_USER_CATEGORY, description.trim());
+        setTitle('');
+        setDescription('');
+        setIsSaving(false);
+    };
+
+    const inputClass = "w-full text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+    return (
+        <div className="absolute right-0 mt-1 z-20 animate-fade-in">
+            {hovered && (
+                <div className="hidden md:block absolute right-full top-0 mr-2 w-64 bg-white rounded-lg shadow-xl border border-gray-100 p-3 space-y-2 pointer-events-none">
+                    <div>
+                        <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{hovered.category}</div>
+                        <div className="text-sm font-semibold text-gray-900">{hovered.title}</div>
+                    </div>
+                    {hovered.description && <p className="text-xs text-gray-600 leading-relaxed">{hovered.description}</p>}
+                    <div className="text-[11px] text-gray-400 font-mono">
+                        {hovered.layers.map(l => l.freq % 1 === 0 ? l.freq : l.freq.toFixed(2)).join(' · ')} Hz
+                    </div>
+                    <div className="text-[11px] text-gray-500">
+                        {hovered.layers.length} layer{hovered.layers.length === 1 ? '' : 's'} · opens in <span className="font-medium text-indigo-600">{VIEW_LABELS[hovered.view]}</span> view
+                    </div>
+                </div>
+            )}
+
+            <div className="w-72 bg-white rounded-lg shadow-xl border border-gray-100 overflow-hidden flex flex-col max-h-[28rem]">
+                <div className="p-2 border-b border-gray-100">
+                    <input
+                        autoFocus
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && matches.length > 0) onApply(matches[0]); }}
+                        placeholder="Search presets…"
+                        className={inputClass}
+                    />
+                </div>
+
+                <div className="flex-1 overflow-y-auto" onMouseLeave={() => setHovered(null)}>
+                    {groups.length === 0 && (
+                        <div className="px-4 py-6 text-xs text-gray-400 italic text-center">No presets match "{query}".</div>
+                    )}
+                    {groups.map(group => (
+                        <div key={group.category}>
+                            <div className="px-3 py-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider bg-gray-50 border-t border-gray-100 first:border-t-0">{group.category}</div>
+                            {group.presets.map(preset => (
+                                <div key={preset.id} className="group flex items-center" onMouseEnter={() => setHovered(preset)}>
+                                    <button
+                                        onClick={() => onApply(preset)}
+                                        onFocus={() => setHovered(preset)}
+                                        title={preset.description}
+                                        className={`flex-1 text-left px-4 py-2 text-xs text-gray-700 border-l-2 border-transparent ${preset.custom ? 'hover:bg-emerald-50 hover:text-emerald-700 hover:border-emerald-500' : 'hover:bg-indigo-50 hover:text-indigo-700 hover:border-indigo-500'}`}
+                                    >
+                                        {preset.title}
+                                    </button>
+                                    {preset.custom && (
+                                        <button
+                                            onClick={() => onDelete(preset.id)}
+                                            title="Delete preset"
+                                            className="px-2 py-2 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                        >
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                                            </svg>
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="p-2 border-t border-gray-100 bg-gray-50/60 space-y-2">
+                    {error && <div className="text-[11px] text-red-600">{error}</div>}
+                    {isSaving ? (
+                        <form className="space-y-1.5" onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+                            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={`Preset ${userPresets.length + 1}`} className={inputClass} />
+                            <input value={category} onChange={(e) => setCategory(e.target.value)} list="preset-categories" placeholder="Category" className={inputClass} />
+                            <datalist id="preset-categories">
+                                {userCategories.map(c => <option key={c} value={c} />)}
+                            </datalist>
+                            <textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What to listen or look for (optional)" rows={2} className={`${inputClass} resize-none`} />
+                            <div className="flex gap-2 justify-end">
+                                <button type="button" onClick={() => setIsSaving(false)} className="px-2.5 py-1 text-xs text-gray-500 hover:text-gray-700">Cancel</button>
+                                <button type="submit" className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium rounded-md shadow-sm">Save</button>
+                            </div>
+                        </form>
+                    ) : (
+                        <button
+                            onClick={() => setIsSaving(true)}
+                            className="w-full px-3 py-1.5 text-xs font-medium rounded-md border border-dashed border-gray-300 text-gray-600 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+                        >
+                            + Save current layers as preset
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
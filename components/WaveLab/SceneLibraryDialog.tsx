@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Scene } from '../../types';
+import { VIEW_LABELS } from '../../utils/scenes';
+import { parseSceneFile, ParsedSceneFile, SceneFileError } from '../../utils/sceneFile';
+
+interface SceneLibraryDialogProps {
+    scenes: Scene[];
+    error: string | null;
+    onSave: (name: string) => void;
+    onOverwrite: (id: string) => void;
+    onLoad: (scene: Scene) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImportFile: (file: ParsedSceneFile) => void;
+    onExportFile: (name: string) => void;
+    onClose: () => void;
+}
+
+export const SceneLibraryDialog: React.FC<SceneLibraryDialogProps> = ({
+    scenes, error, onSave, onOverwrite, onLoad, onRename, onDuplicate, onDelete, onImportFile, onExportFile, onClose
+}) => {
+    const [name, setName] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState('');
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+
+    const handleSave = () => {
+        const trimmed = name.trim();
+        onSave(trimmed || `Scene ${scenes.length + 1}`);
+        setName('');
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            onImportFile(parseSceneFile(await file.text()));
+            setFileError(null);
+        } catch (e) {
+            // Read failures and unexpected contents are reported too, not left to escape the async handler
+            setFileError(`${file.name}: ${e instanceof SceneFileError ? e.message : 'Could not read this file as a scene.'}`);
+        }
+    };
+
+    const commitRename = () => {
+        if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+        setEditingId(null);
+    };
+
+    const actionClass = "px-2 py-1 text-[11px] font-medium rounded-md text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 transition-colors";
+
+    return (
+        <div className="fixed inset-0 z-40 bg-gray-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-white rounded-xl shadow-xl border border-gray-100 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Scene Library</h2>
+                        <p className="text-gray-500 text-sm mt-1">
+                            Save the layers, drawing and view under a name and come back to them later. Scenes stay in this browser.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+
+                <form
+                    className="flex gap-2"
+                    onSubmit={(e) => { e.preventDefault(); handleSave(); }}
+                >
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder={`Scene ${scenes.length + 1}`}
+                        className="flex-1 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    />
+                    <button
+                        type="submit"
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium rounded-lg shadow-sm transition-all"
+                    >
+                        Save Current
+                    </button>
+                </form>
+
+                <div className="flex flex-wrap items-center gap-2 -mt-2">
+                    <label className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 text-gray-600 hover:border-indigo-400 hover:text-indigo-600 cursor-pointer transition-colors">
+                        Import File…
+                        <input
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImport(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                    <button
+                        onClick={() => onExportFile(name.trim() || 'Untitled scene')}
+                        title="Download the current setup as a JSON scene file"
+                        className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 text-gray-600 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+                    >
+                        Export Current
+                    </button>
+                    <span className="text-[11px] text-gray-400">JSON files move scenes between browsers and keep backups.</span>
+                </div>
+
+                {error && (
+                    <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>
+                )}
+                {fileError && (
+                    <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{fileError}</div>
+                )}
+
+                <div className="flex-1 overflow-y-auto -mx-2 px-2">
+                    {scenes.length === 0 ? (
+                        <div className="text-sm text-gray-400 italic text-center py-10">No saved scenes yet.</div>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {scenes.map(scene => (
+                                <div key={scene.id} className="flex gap-3 p-2 rounded-lg border border-gray-100 hover:border-indigo-200 transition-colors">
+                                    <button
+                                        onClick={() => onLoad(scene)}
+                                        title="Load scene"
+                                        className="flex-none w-28 h-20 rounded-md overflow-hidden bg-gray-900 ring-1 ring-black/5"
+                                    >
+                                        {scene.thumbnail
+                                            ? <img src={scene.thumbnail} alt="" className="w-full h-full object-cover" />
+                                            : <span className="text-[10px] text-gray-500">No preview</span>}
+                                    </button>
+                                    <div className="flex-1 min-w-0 flex flex-col">
+                                        {editingId === scene.id ? (
+                                            <input
+                                                autoFocus
+                                                value={editingName}
+                                                onChange={(e) => setEditingName(e.target.value)}
+                                                onBlur={commitRename}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') commitRename();
+                                                    if (e.key === 'Escape') setEditingId(null);
+                                                }}
+                                                className="text-sm font-medium text-gray-900 border border-indigo-300 rounded px-1.5 py-0.5 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                            />
+                                        ) : (
+                                            <button
+                                                onClick={() => { setEditingId(scene.id); setEditingName(scene.name); }}
+                                                title="Rename"
+                                                className="text-left text-sm font-medium text-gray-900 truncate hover:text-indigo-600"
+                                            >
+                                                {scene.name}
+                                            </button>
+                                        )}
+                                        <span className="text-[11px] text-gray-400">
+                                            {scene.document.waves.length} layer{scene.document.waves.length === 1 ? '' : 's'} · {VIEW_LABELS[scene.view.mode]} · {new Date(scene.updatedAt).toLocaleDateString()}
+                                        </span>
+                                        <div className="mt-auto flex flex-wrap gap-0.5 -ml-2">
+                                            <button onClick={() => onLoad(scene)} className={actionClass}>Load</button>
+                                            <button onClick={() => onOverwrite(scene.id)} title="Replace with the current setup" className={actionClass}>Update</button>
+                                            <button onClick={() => onDuplicate(scene.id)} className={actionClass}>Duplicate</button>
+                                            {confirmDeleteId === scene.id ? (
+                                                <button
+                                                    onClick={() => { onDelete(scene.id); setConfirmDeleteId(null); }}
+                                                    onMouseLeave={() => setConfirmDeleteId(null)}
+                                                    className="px-2 py-1 text-[11px] font-medium rounded-md text-white bg-red-500 hover:bg-red-600 transition-colors"
+                                                >
+                                                    Confirm delete
+                                                </button>
+                                            ) : (
+                                                <button onClick={() => setConfirmDeleteId(scene.id)} className="px-2 py-1 text-[11px] font-medium rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50 transition-colors">Delete</button>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Wave, AudioMapping } from '../../types';
+import { RangeSlider } from '../ui/RangeSlider';
+import { encodeWav, WavEncoding } from '../../utils/wav';
+import { renderWaves, RenderOptions, DEFAULT_RENDER_OPTIONS } from '../../utils/render';
+import { isActiveWave } from '../../utils/synth';
+
+interface WavExportDialogProps {
+    waves: Wave[];
+    audioMapping: AudioMapping;
+    onClose: () => void;
+}
+
+const SAMPLE_RATES = [22050, 44100, 48000, 96000];
+
+export const WavExportDialog: React.FC<WavExportDialogProps> = ({ waves, audioMapping, onClose }) => {
+    const [options, setOptions] = useState<RenderOptions>(DEFAULT_RENDER_OPTIONS);
+    const [encoding, setEncoding] = useState<WavEncoding>('pcm16');
+
+    const update = (updates: Partial<RenderOptions>) => setOptions(prev => ({ ...prev, ...updates }));
+
+    const activeCount = waves.filter(isActiveWave).length;
+    const bytes = 44 + Math.round(options.sampleRate * options.duration) * (encoding === 'pcm16' ? 2 : 4);
+
+    const handleDownload = () => {
+        const samples = renderWaves(waves, options, audioMapping);
+        const blob = new Blob([encodeWav([samples], options.sampleRate, encoding)], { type: 'audio/wav' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `frequency-canvas-${activeCount}-layers.wav`;
+        link.click();
+        // Give the browser a moment to start the download before releasing the blob
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    return (
+        <div className="fixed inset-0 z-40 bg-gray-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="w-full max-w-md bg-white rounded-xl shadow-xl border border-gray-100 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Export Audio</h2>
+                        <p className="text-gray-500 text-sm mt-1">
+                            Render the unmuted layers to a WAV file, at the same pitch you hear with audio on.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="space-y-4">
+                    <RangeSlider
+                        label="Duration (s)"
+                        min={0.5}
+                        max={30}
+                        step={0.5}
+                        value={options.duration}
+                        onChange={(e) => update({ duration: Math.max(0.1, Math.min(60, parseFloat(e.target.value) || 0.1)) })}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                        <RangeSlider
+                            label="Fade In (s)"
+                            min={0}
+                            max={2}
+                            step={0.01}
+                            value={options.fadeIn}
+                            onChange={(e) => update({ fadeIn: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        />
+                        <RangeSlider
+                            label="Fade Out (s)"
+                            min={0}
+                            max={2}
+                            step={0.01}
+                            value={options.fadeOut}
+                            onChange={(e) => update({ fadeOut: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <label className="block">
+                            <span className="block text-xs text-gray-500 font-medium mb-1">Sample Rate</span>
+                            <select
+                                value={options.sampleRate}
+                                onChange={(e) => update({ sampleRate: parseInt(e.target.value) })}
+                                className="w-full text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                            >
+                                {SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate} Hz</option>)}
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs text-gray-500 font-medium mb-1">Format</span>
+                            <select
+                                value={encoding}
+                                onChange={(e) => setEncoding(e.target.value as WavEncoding)}
+                                className="w-full text-xs text-gray-700 bg-white border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                            >
+                                <option value="pcm16">16-bit PCM</option>
+                                <option value="float32">32-bit Float</option>
+                            </select>
+                        </label>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer select-none hover:text-indigo-600 transition-colors">
+                        <input
+                            type="checkbox"
+                            checked={options.normalize}
+                            onChange={(e) => update({ normalize: e.target.checked })}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 w-4 h-4 cursor-pointer"
+                        />
+                        Normalize peak to -1 dBFS
+                        {!options.normalize && <span className="text-gray-400">(otherwise live playback level)</span>}
+                    </label>
+                </div>
+
+                <div className="flex justify-between items-center pt-2 border-t border-gray-100">
+                    <span className="text-xs text-gray-500">
+                        {activeCount} layer{activeCount === 1 ? '' : 's'} · <span className="font-mono">{(bytes / (1024 * 1024)).toFixed(1)} MB</span>
+                    </span>
+                    <button
+                        onClick={handleDownload}
+                        disabled={activeCount === 0}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium rounded-lg shadow-sm transition-all disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        Download WAV
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
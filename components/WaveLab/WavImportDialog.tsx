@@ -0,0 +1,233 @@
+import React, { useState, useMemo } from 'react';
+import { Wave, AudioMapping } from '../../types';
+import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
+import { RangeSlider } from '../ui/RangeSlider';
+import { parseWav, mixToMono, WavData, WavFormatError } from '../../utils/wav';
+import { analyzeRecording, estimateFundamental, extractCycle, MAX_SEGMENT_SECONDS } from '../../utils/recording';
+import { coefficientsToWaves } from '../../utils/synth';
+import { audioScale } from '../../utils/pitch';
+
+interface WavImportDialogProps {
+    audioMapping: AudioMapping;
+    onClose: () => void;
+    onImportLayers: (waves: Wave[]) => void;
+    onImportCycle: (cycle: number[]) => void;
+}
+
+// Resolution of the min/max overview of the whole file
+const OVERVIEW_BUCKETS = 600;
+
+export const WavImportDialog: React.FC<WavImportDialogProps> = ({ audioMapping, onClose, onImportLayers, onImportCycle }) => {
+    const [fileName, setFileName] = useState<string>('');
+    const [wav, setWav] = useState<WavData | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Steady-state segment, in seconds
+    const [start, setStart] = useState<number>(0);
+    const [length, setLength] = useState<number>(0.5);
+    const [partialCount, setPartialCount] = useState<number>(8);
+
+    const samples = useMemo(() => wav ? mixToMono(wav) : new Float32Array(0), [wav]);
+    const sampleRate = wav?.sampleRate ?? 44100;
+    const duration = samples.length / sampleRate;
+
+    const segment = useMemo(() => {
+        const from = Math.floor(start * sampleRate);
+        return samples.subarray(from, Math.min(samples.length, from + Math.floor(length * sampleRate)));
+    }, [samples, sampleRate, start, length]);
+
+    const partials = useMemo(() => analyzeRecording(segment, sampleRate, partialCount), [segment, sampleRate, partialCount]);
+    const fundamental = useMemo(() => estimateFundamental(partials), [partials]);
+    const strongest = partials.length > 0 ? partials[0].amp : 1;
+
+    // Min/max per bucket, computed once per file
+    const overview = useMemo(() => {
+        const buckets: { min: number, max: number }[] = [];
+        if (samples.length === 0) return buckets;
+        const size = Math.max(1, Math.floor(samples.length / OVERVIEW_BUCKETS));
+        for (let b = 0; b * size < samples.length; b++) {
+            let min = 0;
+            let max = 0;
+            for (let i = b * size; i < Math.min(samples.length, (b + 1) * size); i++) {
+                min = Math.min(min, samples[i]);
+                max = Math.max(max, samples[i]);
+            }
+            buckets.push({ min, max });
+        }
+        return buckets;
+    }, [samples]);
+
+    const overviewCanvasRef = useCanvasAnimation((ctx, _time, _deltaTime, width, height) => {
+        ctx.clearRect(0, 0, width, height);
+        if (overview.length === 0 || duration === 0) return;
+
+        // Selected segment
+        ctx.fillStyle = 'rgba(99, 102, 241, 0.25)';
+        ctx.fillRect((start / duration) * width, 0, Math.max(2, (length / duration) * width), height);
+
+        ctx.strokeStyle = '#4F46E5';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        overview.forEach((b, i) => {
+            const x = (i / overview.length) * width;
+            ctx.moveTo(x, height / 2 - b.max * height / 2);
+            ctx.lineTo(x, height / 2 - b.min * height / 2);
+        });
+        ctx.stroke();
+    }, [overview, start, length, duration]);
+
+    const handleFile = async (file: File) => {
+        setFileName(file.name);
+        try {
+            const data = parseWav(await file.arrayBuffer());
+            const seconds = data.channels[0].length / data.sampleRate;
+            if (seconds === 0) throw new WavFormatError('The file contains no audio');
+
+            // Skip the attack: start a quarter of the way in, where most notes have settled
+            const defaultLength = Math.min(0.5, seconds);
+            setStart(Math.min(seconds * 0.25, seconds - defaultLength));
+            setLength(defaultLength);
+            setWav(data);
+            setError(null);
+        } catch (e) {
+            // Anything else (an unreadable file, a reader bug) still gets reported rather than lost in the async handler
+            setWav(null);
+            setError(e instanceof WavFormatError ? e.message : 'Could not read this file as WAV audio.');
+        }
+    };
+
+    // Click the overview to move the segment there
+    const handleOverviewClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const t = ((e.clientX - rect.left) / rect.width) * duration;
+        setStart(Math.max(0, Math.min(duration - length, t - length / 2)));
+    };
+
+    const handleImportLayers = () => {
+        // Recordings are in real Hz; undo the audio mapping so the layers play back at the recorded pitch
+        const waves = coefficientsToWaves(partials, 1 / audioScale(audioMapping));
+        if (waves.length > 0) onImportLayers(waves);
+    };
+
+    const handleImportCycle = () => {
+        if (!fundamental) return;
+        const cycle = extractCycle(segment, sampleRate, fundamental);
+        if (cycle) onImportCycle(cycle);
+    };
+
+    const maxLength = Math.min(MAX_SEGMENT_SECONDS, duration);
+
+    return (
+        <div className="fixed inset-0 z-40 bg-gray-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="w-full max-w-2xl bg-white rounded-xl shadow-xl border border-gray-100 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900">Import Recording</h2>
+                        <p className="text-gray-500 text-sm mt-1">
+                            Load a WAV file (PCM or float, mono or stereo), select a steady part of the note and extract its strongest partials.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+
+                <label className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg border border-dashed border-gray-300 hover:border-indigo-400 cursor-pointer transition-colors">
+                    <span className="px-3 py-1.5 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-md">Choose File</span>
+                    <span className="text-xs text-gray-500 truncate">{fileName || 'No file selected'}</span>
+                    <input
+                        type="file"
+                        accept=".wav,audio/wav,audio/x-wav"
+                        className="hidden"
+                        onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); }}
+                    />
+                </label>
+
+                {error && <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</div>}
+
+                {wav && (
+                    <>
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                                <span>Waveform (click to move selection)</span>
+                                <span className="font-mono normal-case font-medium">
+                                    {wav.sampleRate} Hz · {wav.bitDepth}-bit {wav.format === 'float' ? 'float' : 'PCM'} · {wav.channels.length === 1 ? 'mono' : `${wav.channels.length} ch`} · {duration.toFixed(2)}s
+                                </span>
+                            </div>
+                            <div className="h-24 w-full bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
+                                <canvas ref={overviewCanvasRef} onClick={handleOverviewClick} className="w-full h-full block cursor-pointer" />
+                            </div>
+                        </div>
+
+                        <div className="grid sm:grid-cols-3 gap-4">
+                            <RangeSlider
+                                label="Start (s)"
+                                min={0}
+                                max={Math.max(0, duration - length)}
+                                step={0.01}
+                                value={Number(start.toFixed(2))}
+                                onChange={(e) => setStart(Math.max(0, Math.min(duration - length, parseFloat(e.target.value) || 0)))}
+                            />
+                            <RangeSlider
+                                label="Length (s)"
+                                min={0.02}
+                                max={maxLength}
+                                step={0.01}
+                                value={Number(length.toFixed(2))}
+                                onChange={(e) => {
+                                    const next = Math.max(0.02, Math.min(maxLength, parseFloat(e.target.value) || 0.02));
+                                    setLength(next);
+                                    setStart(s => Math.min(s, duration - next));
+                                }}
+                            />
+                            <RangeSlider
+                                label="Partials"
+                                min={1}
+                                max={32}
+                                step={1}
+                                value={partialCount}
+                                onChange={(e) => setPartialCount(parseInt(e.target.value) || 1)}
+                            />
+                        </div>
+
+                        <div className="flex flex-wrap gap-2 items-center text-xs">
+                            <span className="font-bold text-gray-400 uppercase tracking-wider text-[10px]">Partials</span>
+                            {partials.length === 0 ? (
+                                <span className="text-gray-400 italic">No peaks found in this segment</span>
+                            ) : [...partials].sort((a, b) => a.freq - b.freq).map((p, i) => (
+                                <span key={i} className="font-mono px-2 py-0.5 rounded bg-gray-50 border border-gray-200 text-gray-700">
+                                    {p.freq.toFixed(1)} Hz · {(20 * Math.log10(p.amp / strongest)).toFixed(0)} dB
+                                </span>
+                            ))}
+                        </div>
+
+                        <div className="flex flex-col sm:flex-row justify-between items-center gap-3 pt-2 border-t border-gray-100">
+                            <span className="text-xs text-gray-500">
+                                Fundamental: <span className="font-mono text-gray-800">{fundamental ? `${fundamental.toFixed(2)} Hz` : '—'}</span>
+                            </span>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleImportCycle}
+                                    disabled={!fundamental}
+                                    title="Average one period of the segment into the Fourier drawing"
+                                    className="px-3 py-2 bg-white border border-gray-200 hover:border-indigo-300 text-gray-700 text-xs font-medium rounded-lg shadow-sm transition-all disabled:opacity-40 disabled:pointer-events-none"
+                                >
+                                    Cycle to Fourier Drawing
+                                </button>
+                                <button
+                                    onClick={handleImportLayers}
+                                    disabled={partials.length === 0}
+                                    className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium rounded-lg shadow-sm transition-all disabled:opacity-40 disabled:pointer-events-none"
+                                >
+                                    Replace Layers
+                                </button>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,18 +1,34 @@
-import React from 'react';
-import { Wave } from '../../types';
+import React, { useState } from 'react';
+import { Wave, WaveShape, Envelope, AudioMapping, LessonControl, MAX_LAYER_FREQUENCY } from '../../types';
 import { useCanvasAnimation } from '../../hooks/useCanvasAnimation';
 import { RangeSlider } from '../ui/RangeSlider';
+import { HarmonicTableEditor } from './HarmonicTableEditor';
+import { synthesize } from '../../utils/synth';
+import { SHAPE_LABELS, DEFAULT_HARMONIC_TABLE } from '../../utils/shapes';
+import { getEnvelope } from '../../utils/envelope';
+import { toAudioFreq, nearestNote, formatNote } from '../../utils/pitch';
 
 interface WaveCardProps {
     wave: Wave;
-    onChange: (id: number, updates: Partial<Wave>) => void;
+    audioMapping: AudioMapping;
+    onChange: (id: number, updates: Partial<Wave>, continuous?: boolean) => void; // continuous: slider input
     onRemove: (id: number) => void;
     onCounter: (id: number) => void;
     isRemovable: boolean;
+    highlight?: LessonControl; // slider a running lesson points at
 }
 
-export const WaveCard: React.FC<WaveCardProps> = ({ wave, onChange, onRemove, onCounter, isRemovable }) => {
-    
+export const WaveCard: React.FC<WaveCardProps> = ({ wave, audioMapping, onChange, onRemove, onCounter, isRemovable, highlight }) => {
+    const shape = wave.shape ?? 'sine';
+    const envelope = getEnvelope(wave);
+    const [showEnvelope, setShowEnvelope] = useState(false);
+    const audioFreq = toAudioFreq(wave.freq, audioMapping);
+    const note = nearestNote(audioFreq, audioMapping);
+
+    const highlightClass = (control: LessonControl) => highlight === control ? 'rounded-md ring-2 ring-amber-400 ring-offset-4 bg-amber-50/60' : '';
+
+    const updateEnvelope = (updates: Partial<Envelope>) => onChange(wave.id, { envelope: { ...envelope, ...updates } }, true);
+
     // Updated signature: added deltaTime (unused here)
     const canvasRef = useCanvasAnimation((ctx, time, deltaTime, width, height) => {
         const cy = height / 2;
@@ -32,12 +48,12 @@ export const WaveCard: React.FC<WaveCardProps> = ({ wave, onChange, onRemove, on
         if (wave.muted) ctx.setLineDash([4, 4]);
         else ctx.setLineDash([]);
         
-        // Optimize drawing: standard sine wave
-        for (let x = 0; x < width; x++) { 
-            const t = x / width;
-            const phaseRad = (wave.phase * Math.PI) / 180;
-            // Always show the wave form even if muted, just styled differently
-            const yOffset = (wave.amp / 100) * (height / 2.5) * Math.sin(2 * Math.PI * wave.freq * t + phaseRad - (time * 2));
+        // Always show the wave form even if muted, just styled differently
+        const samples = synthesize([wave], { sampleRate: width, duration: 1, phaseShift: -time * 2, includeMuted: true });
+        const pixelScale = height / 2.5;
+
+        for (let x = 0; x < samples.length; x++) { 
+            const yOffset = samples[x] * pixelScale;
             
             if (x === 0) ctx.moveTo(x, cy - yOffset);
             else ctx.lineTo(x, cy - yOffset);
@@ -47,7 +63,7 @@ export const WaveCard: React.FC<WaveCardProps> = ({ wave, onChange, onRemove, on
     }, [wave]); 
 
     return (
-        <div className={`bg-white rounded-xl shadow-sm border p-4 relative overflow-hidden transition-all duration-300 hover:shadow-md ${wave.muted ? 'border-gray-100 opacity-75' : 'border-gray-100'}`}>
+        <div className={`bg-white rounded-xl shadow-sm border p-4 relative overflow-hidden transition-all duration-300 hover:shadow-md ${highlight ? 'border-amber-300' : 'border-gray-100'} ${wave.muted ? 'opacity-75' : ''}`}>
             <div className={`absolute left-0 top-0 bottom-0 w-1 transition-colors ${wave.muted ? 'bg-gray-300' : ''}`} style={{ backgroundColor: wave.muted ? undefined : wave.color }}></div>
             
             <div className="flex justify-between items-start mb-3 pl-2">
@@ -101,27 +117,99 @@ export const WaveCard: React.FC<WaveCardProps> = ({ wave, onChange, onRemove, on
 
             {/* Controls */}
             <div className={`space-y-4 pl-2 transition-opacity ${wave.muted ? 'opacity-50 pointer-events-none' : ''}`}>
+                <div className="flex bg-gray-50 p-0.5 rounded-lg border border-gray-100">
+                    {(Object.keys(SHAPE_LABELS) as WaveShape[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => onChange(wave.id, option === 'custom' && !wave.harmonics
+                                ? { shape: option, harmonics: DEFAULT_HARMONIC_TABLE }
+                                : { shape: option })}
+                            className={`flex-1 px-1 py-1 text-[10px] font-medium rounded-md transition-all ${shape === option ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                            style={shape === option ? { color: wave.color } : undefined}
+                        >
+                            {SHAPE_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+                {shape === 'custom' && (
+                    <HarmonicTableEditor
+                        harmonics={wave.harmonics ?? DEFAULT_HARMONIC_TABLE}
+                        color={wave.color}
+                        onChange={(harmonics) => onChange(wave.id, { harmonics }, true)}
+                    />
+                )}
                 <RangeSlider 
                     label="Frequency (Hz)" 
-                    min={0.1} max={144} step={0.1}
+                    min={0.1} max={MAX_LAYER_FREQUENCY} step={0.1}
                     value={wave.freq}
                     color={wave.color}
-                    onChange={(e) => onChange(wave.id, { freq: parseFloat(e.target.value) })}
+                    className={highlightClass('freq')}
+                    onChange={(e) => onChange(wave.id, { freq: parseFloat(e.target.value) }, true)}
                 />
+                <div className="-mt-2 flex justify-between text-[10px] font-mono text-gray-400 select-none" title="Pitch heard with audio on">
+                    <span>♪ {audioFreq < 1000 ? audioFreq.toFixed(1) : audioFreq.toFixed(0)} Hz</span>
+                    {note && <span className={Math.abs(note.cents) <= 5 ? 'text-green-600' : undefined}>{formatNote(note)}</span>}
+                </div>
                 <RangeSlider 
                     label="Amplitude (%)" 
                     min={0} max={100}
                     value={wave.amp}
                     color={wave.color}
-                    onChange={(e) => onChange(wave.id, { amp: parseFloat(e.target.value) })}
+                    className={highlightClass('amp')}
+                    onChange={(e) => onChange(wave.id, { amp: parseFloat(e.target.value) }, true)}
                 />
                 <RangeSlider 
                     label="Phase (°)" 
                     min={0} max={360}
                     value={wave.phase}
                     color={wave.color}
-                    onChange={(e) => onChange(wave.id, { phase: parseFloat(e.target.value) })}
+                    className={highlightClass('phase')}
+                    onChange={(e) => onChange(wave.id, { phase: parseFloat(e.target.value) }, true)}
                 />
+
+                <div className="pt-1 border-t border-gray-100">
+                    <button
+                        onClick={() => setShowEnvelope(v => !v)}
+                        className="w-full flex justify-between items-center text-xs text-gray-500 font-medium hover:text-gray-700 pt-2"
+                    >
+                        <span>Envelope (ADSR)</span>
+                        <span className="font-mono text-[10px] text-gray-400">
+                            {envelope.attack}s · {envelope.decay}s · {Math.round(envelope.sustain * 100)}% · {envelope.release}s {showEnvelope ? '▴' : '▾'}
+                        </span>
+                    </button>
+                    {showEnvelope && (
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-3 mt-3">
+                            <RangeSlider
+                                label="Attack (s)"
+                                min={0} max={2} step={0.01}
+                                value={envelope.attack}
+                                color={wave.color}
+                                onChange={(e) => updateEnvelope({ attack: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            />
+                            <RangeSlider
+                                label="Decay (s)"
+                                min={0} max={2} step={0.01}
+                                value={envelope.decay}
+                                color={wave.color}
+                                onChange={(e) => updateEnvelope({ decay: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            />
+                            <RangeSlider
+                                label="Sustain"
+                                min={0} max={1} step={0.01}
+                                value={envelope.sustain}
+                                color={wave.color}
+                                onChange={(e) => updateEnvelope({ sustain: Math.max(0, Math.min(1, parseFloat(e.target.value) || 0)) })}
+                            />
+                            <RangeSlider
+                                label="Release (s)"
+                                min={0} max={4} step={0.01}
+                                value={envelope.release}
+                                color={wave.color}
+                                onChange={(e) => updateEnvelope({ release: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            />
+                        </div>
+                    )}
+                </div>
             </div>
         </div>
     );
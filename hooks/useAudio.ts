@@ -1,34 +1,322 @@
 import { useEffect, useRef, useState } from 'react';
-import { Wave } from '../types';
+import { Wave, Modulation, AudioMapping, PlayMode, MasterBusSettings } from '../types';
+import { waveGain, findModulationSource } from '../utils/synth';
+import { masterLevel, DEFAULT_MASTER_BUS, LIMITER } from '../utils/masterBus';
+import { audioScale, stackFundamental, DEFAULT_AUDIO_MAPPING } from '../utils/pitch';
+import { DEFAULT_HARMONIC_TABLE } from '../utils/shapes';
+import { getEnvelope, envelopeLevel } from '../utils/envelope';
 
-// Visual frequencies (1-10Hz) are too low for audio. 
-// We multiply by this factor to map them to an audible range while preserving harmonic ratios.
-const FREQ_MULTIPLIER = 20;
+// Note-on/off times in AudioContext seconds; `release` is null while the note is held
+interface NoteState {
+    start: number;
+    release: number | null;
+}
 
-export const useAudio = (waves: Wave[]) => {
+// Per-layer chain: osc -> delay (phase modulation) -> am (amplitude modulation) -> gain (level/envelope) -> master
+interface Voice {
+    osc: OscillatorNode;
+    delay: DelayNode;
+    am: GainNode;
+    gain: GainNode;
+    shape: string;
+}
+
+// Output meter reading: sample peak after the master stage, and the limiter's gain reduction (dB, <= 0)
+export interface MeterReading {
+    peak: number;
+    reduction: number;
+}
+
+// A keyboard note: its own copy of every layer chain, transposed, with its own envelopes
+interface KeyVoice {
+    note: NoteState;
+    waves: Wave[];
+    voices: Voice[];
+    taps: GainNode[];
+}
+
+// Longest delay phase modulation may need: a full 2*pi deviation on a very low carrier
+const MAX_PM_DELAY = 1;
+
+// Keyboard notes held at once; the oldest is released to make room
+const MAX_POLYPHONY = 8;
+
+// Identifies the oscillator waveform, so a PeriodicWave is only rebuilt when its table changes
+const shapeKey = (wave: Wave) => wave.shape === 'custom'
+    ? `custom:${(wave.harmonics ?? DEFAULT_HARMONIC_TABLE).join(',')}`
+    : wave.shape ?? 'sine';
+
+const applyShape = (ctx: AudioContext, osc: OscillatorNode, wave: Wave) => {
+    if (wave.shape === 'custom') {
+        // Harmonic n goes to imag[n]: sine terms, matching the visual renderers
+        const table = wave.harmonics ?? DEFAULT_HARMONIC_TABLE;
+        const real = new Float32Array(table.length + 1);
+        const imag = new Float32Array(table.length + 1);
+        table.forEach((h, n) => { imag[n + 1] = h; });
+        osc.setPeriodicWave(ctx.createPeriodicWave(real, imag));
+    } else {
+        osc.type = wave.shape ?? 'sine';
+    }
+};
+
+const createVoice = (ctx: AudioContext, wave: Wave, destination: AudioNode): Voice => {
+    const osc = ctx.createOscillator();
+    const delay = ctx.createDelay(MAX_PM_DELAY);
+    const am = ctx.createGain();
+    const gain = ctx.createGain();
+
+    // Start silent and fade in, rather than jumping to the default gain of 1
+    gain.gain.value = 0;
+    osc.connect(delay);
+    delay.connect(am);
+    am.connect(gain);
+    gain.connect(destination);
+    applyShape(ctx, osc, wave);
+    osc.start();
+    return { osc, delay, am, gain, shape: shapeKey(wave) };
+};
+
+const disconnectVoice = (voice: Voice) => {
+    try {
+        voice.osc.stop();
+    } catch (e) {
+        // Ignore already stopped errors
+    }
+    voice.osc.disconnect();
+    voice.delay.disconnect();
+    voice.am.disconnect();
+    voice.gain.disconnect();
+};
+
+// Gain of a modulation tap, scaled to the parameter it drives. `scale` maps layer Hz to audio Hz.
+// For PM also the delay swing, which the target needs as base delay so the delay never goes negative.
+const routeTap = (m: Modulation, source: Wave, target: Wave, scale: number) => {
+    const strength = m.depth * source.amp / 100;
+    if (m.type === 'am') return { gain: strength, swing: 0 };
+    // Peak deviation in Hz: modulation index times the modulator frequency
+    if (m.type === 'fm') return { gain: strength * source.freq * scale, swing: 0 };
+    // A delay of d seconds lags the carrier's phase by 2*pi*f*d
+    const swing = strength / (2 * Math.PI * Math.max(0.01, target.freq * scale));
+    return { gain: -swing, swing };
+};
+
+const routeParam = (m: Modulation, voice: Voice) => {
+    if (m.type === 'am') return voice.am.gain;
+    return m.type === 'fm' ? voice.osc.frequency : voice.delay.delayTime;
+};
+
+// Schedules the rest of `note`'s envelope on a layer's gain, starting from `from`
+// (the level it is at right now). Used for note-on, note-off and layers added mid-note.
+const scheduleEnvelope = (param: AudioParam, wave: Wave, note: NoteState | null, now: number, from: number) => {
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(from, now);
+    if (!note) return;
+
+    const env = getEnvelope(wave);
+    const peak = waveGain(wave);
+    if (note.release === null) {
+        const attackEnd = note.start + env.attack;
+        const decayEnd = attackEnd + env.decay;
+        if (now < attackEnd) param.linearRampToValueAtTime(peak, attackEnd);
+        if (now < decayEnd) param.linearRampToValueAtTime(peak * env.sustain, decayEnd);
+        else param.setValueAtTime(peak * env.sustain, now);
+    } else {
+        param.linearRampToValueAtTime(0, Math.max(now, note.release + env.release));
+    }
+};
+
+// Gain a layer has at `time` during `note`, following the same envelope as the visuals
+const noteGainAt = (wave: Wave, note: NoteState | null, time: number) => {
+    if (!note) return 0;
+    const gate = note.release === null ? Infinity : note.release - note.start;
+    return waveGain(wave) * envelopeLevel(getEnvelope(wave), time - note.start, gate);
+};
+
+// In note mode layers are silent until triggered, then follow their own ADSR envelope.
+// In keys mode the stack is only heard through keyOn/keyOff voices.
+// Otherwise every layer drones continuously at its fixed gain.
+// Master bus: voices -> master gain (gain staging and volume) -> limiter (optional) -> analyser -> speakers
+export const useAudio = (
+    waves: Wave[],
+    mode: PlayMode = 'drone',
+    mapping: AudioMapping = DEFAULT_AUDIO_MAPPING,
+    bus: MasterBusSettings = DEFAULT_MASTER_BUS
+) => {
     const [isPlaying, setIsPlaying] = useState(false);
     const audioCtxRef = useRef<AudioContext | null>(null);
-    const oscillatorsRef = useRef<Map<number, { osc: OscillatorNode, gain: GainNode }>>(new Map());
+    const oscillatorsRef = useRef<Map<number, Voice>>(new Map());
+    // Modulation taps (source osc -> scaled gain -> target AudioParam), keyed by route
+    const routesRef = useRef<Map<string, GainNode>>(new Map());
     const masterGainRef = useRef<GainNode | null>(null);
+    const limiterRef = useRef<DynamicsCompressorNode | null>(null);
+    const analyserRef = useRef<AnalyserNode | null>(null);
+    const meterBufferRef = useRef<Float32Array | null>(null);
+    const limitedRef = useRef<boolean | null>(null);
+    const noteRef = useRef<NoteState | null>(null);
+    // Held keyboard notes by key number; released ones clean themselves up when they fall silent
+    const keysRef = useRef<Map<number, KeyVoice>>(new Map());
+    // Keys currently down, with the press they belong to. Set before keyOn awaits the context, so a release
+    // that lands during the await cancels the pending voice instead of missing it.
+    const heldKeysRef = useRef<Map<number, number>>(new Map());
+    const pressCountRef = useRef(0);
+    const wavesRef = useRef(waves);
+    wavesRef.current = waves;
+    const busRef = useRef(bus);
+    busRef.current = bus;
+
+    // Routes the master gain through the limiter, or straight to the analyser when bypassed
+    const connectMaster = (limited: boolean) => {
+        const master = masterGainRef.current;
+        if (!master || !limiterRef.current || !analyserRef.current || limitedRef.current === limited) return;
+        master.disconnect();
+        master.connect(limited ? limiterRef.current : analyserRef.current);
+        limitedRef.current = limited;
+    };
+
+    // Polled by the meter every frame
+    const readMeter = (): MeterReading => {
+        const analyser = analyserRef.current;
+        if (!analyser || !isPlaying) return { peak: 0, reduction: 0 };
+        if (!meterBufferRef.current || meterBufferRef.current.length !== analyser.fftSize) {
+            meterBufferRef.current = new Float32Array(analyser.fftSize);
+        }
+        const buffer = meterBufferRef.current;
+        analyser.getFloatTimeDomainData(buffer);
+        let peak = 0;
+        for (let i = 0; i < buffer.length; i++) peak = Math.max(peak, Math.abs(buffer[i]));
+        return { peak, reduction: busRef.current.limiter ? limiterRef.current?.reduction ?? 0 : 0 };
+    };
+
+    const startAudio = async () => {
+        // Init Audio Context on user gesture
+        if (!audioCtxRef.current) {
+            const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+            audioCtxRef.current = new AudioContext();
+            
+            const ctx = audioCtxRef.current;
+            const master = ctx.createGain();
+            master.gain.value = masterLevel(wavesRef.current, busRef.current);
+
+            const limiter = ctx.createDynamicsCompressor();
+            limiter.threshold.value = LIMITER.threshold;
+            limiter.knee.value = LIMITER.knee;
+            limiter.ratio.value = LIMITER.ratio;
+            limiter.attack.value = LIMITER.attack;
+            limiter.release.value = LIMITER.release;
+
+            const analyser = ctx.createAnalyser();
+            analyser.fftSize = 2048;
+            limiter.connect(analyser);
+            analyser.connect(ctx.destination);
+
+            masterGainRef.current = master;
+            limiterRef.current = limiter;
+            analyserRef.current = analyser;
+            connectMaster(busRef.current.limiter);
+        }
+
+        if (audioCtxRef.current.state === 'suspended') {
+            await audioCtxRef.current.resume();
+        }
+        setIsPlaying(true);
+        return audioCtxRef.current;
+    };
+
+    // Fires every layer as one note; it sustains until noteOff
+    const noteOn = async () => {
+        const ctx = await startAudio();
+        const now = ctx.currentTime;
+        // Retrigger from the current levels to avoid clicks
+        const levels = new Map<number, number>(wavesRef.current.map(wave => [wave.id, noteGainAt(wave, noteRef.current, now)]));
+        noteRef.current = { start: now, release: null };
+        wavesRef.current.forEach(wave => {
+            const nodes = oscillatorsRef.current.get(wave.id);
+            if (nodes) scheduleEnvelope(nodes.gain.gain, wave, noteRef.current, now, levels.get(wave.id) ?? 0);
+        });
+    };
+
+    const noteOff = () => {
+        const ctx = audioCtxRef.current;
+        const note = noteRef.current;
+        if (!ctx || !note || note.release !== null) return;
+        const now = ctx.currentTime;
+        const levels = new Map<number, number>(wavesRef.current.map(wave => [wave.id, noteGainAt(wave, note, now)]));
+        note.release = now;
+        wavesRef.current.forEach(wave => {
+            const nodes = oscillatorsRef.current.get(wave.id);
+            if (nodes) scheduleEnvelope(nodes.gain.gain, wave, note, now, levels.get(wave.id) ?? 0);
+        });
+    };
+
+    // Releases a held keyboard note; its voices are torn down once the longest release has finished
+    const releaseKey = (key: number, now: number) => {
+        const voice = keysRef.current.get(key);
+        if (!voice) return;
+        keysRef.current.delete(key);
+
+        const levels = voice.waves.map(wave => noteGainAt(wave, voice.note, now));
+        voice.note.release = now;
+        voice.waves.forEach((wave, i) => scheduleEnvelope(voice.voices[i].gain.gain, wave, voice.note, now, levels[i]));
+
+        const end = now + Math.max(0, ...voice.waves.map(w => getEnvelope(w).release)) + 0.05;
+        voice.voices.forEach(v => v.osc.stop(end));
+        voice.voices[0].osc.onended = () => {
+            voice.voices.forEach(disconnectVoice);
+            voice.taps.forEach(tap => tap.disconnect());
+        };
+    };
+
+    // Plays the whole stack as one polyphonic voice, transposed so its fundamental sounds at `freq` (audio Hz).
+    // The stack is captured at key-down; edits apply to the next key.
+    const keyOn = async (key: number, freq: number) => {
+        const press = ++pressCountRef.current;
+        heldKeysRef.current.set(key, press);
+        const ctx = await startAudio();
+        if (heldKeysRef.current.get(key) !== press) return;
+        const now = ctx.currentTime;
+        const stack = wavesRef.current;
+        const fundamental = stackFundamental(stack);
+        if (!fundamental || !masterGainRef.current) return;
+
+        releaseKey(key, now);
+        if (keysRef.current.size >= MAX_POLYPHONY) {
+            releaseKey(keysRef.current.keys().next().value as number, now);
+        }
+
+        const scale = freq / fundamental;
+        const note: NoteState = { start: now, release: null };
+        const voices = stack.map(wave => createVoice(ctx, wave, masterGainRef.current!));
+        const taps: GainNode[] = [];
+        stack.forEach((target, i) => {
+            voices[i].osc.frequency.value = target.freq * scale;
+            let delay = 0;
+            (target.modulators ?? []).forEach(m => {
+                const source = findModulationSource(target, m, stack);
+                if (!source) return;
+                const { gain, swing } = routeTap(m, source, target, scale);
+                const tap = ctx.createGain();
+                tap.gain.value = gain;
+                voices[stack.indexOf(source)].osc.connect(tap);
+                tap.connect(routeParam(m, voices[i]));
+                taps.push(tap);
+                delay += swing;
+            });
+            voices[i].delay.delayTime.value = Math.min(MAX_PM_DELAY / 2, delay);
+            scheduleEnvelope(voices[i].gain.gain, target, note, now, 0);
+        });
+
+        keysRef.current.set(key, { note, waves: stack, voices, taps });
+    };
+
+    const keyOff = (key: number) => {
+        heldKeysRef.current.delete(key);
+        const ctx = audioCtxRef.current;
+        if (ctx) releaseKey(key, ctx.currentTime);
+    };
 
     const toggleAudio = async () => {
         if (!isPlaying) {
-            // Init Audio Context on user gesture
-            if (!audioCtxRef.current) {
-                const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-                audioCtxRef.current = new AudioContext();
-                
-                // Master Gain (Volume limit)
-                const master = audioCtxRef.current.createGain();
-                master.gain.value = 0.2; // Reduced volume to prevent clipping with multiple waves
-                master.connect(audioCtxRef.current.destination);
-                masterGainRef.current = master;
-            }
-
-            if (audioCtxRef.current.state === 'suspended') {
-                await audioCtxRef.current.resume();
-            }
-            setIsPlaying(true);
+            await startAudio();
         } else {
             if (audioCtxRef.current) {
                 audioCtxRef.current.suspend();
@@ -42,55 +330,121 @@ export const useAudio = (waves: Wave[]) => {
         if (!audioCtxRef.current || !masterGainRef.current) return;
         const ctx = audioCtxRef.current;
         const now = ctx.currentTime;
+        const scale = audioScale(mapping);
 
         // 1. Remove oscillators for waves that no longer exist or are strictly muted
         const currentIds = new Set(waves.map(w => w.id));
         oscillatorsRef.current.forEach((nodes, id) => {
             if (!currentIds.has(id)) {
-                try {
-                    nodes.osc.stop();
-                    nodes.osc.disconnect();
-                    nodes.gain.disconnect();
-                } catch (e) {
-                    // Ignore already stopped errors
-                }
+                disconnectVoice(nodes);
                 oscillatorsRef.current.delete(id);
             }
         });
 
+        // Leaving note mode drops the note and any envelope ramps still scheduled
+        if (mode !== 'note' && noteRef.current) {
+            noteRef.current = null;
+            oscillatorsRef.current.forEach(nodes => nodes.gain.gain.cancelScheduledValues(now));
+        }
+        if (mode !== 'keys') {
+            heldKeysRef.current.clear();
+            keysRef.current.forEach((_, key) => releaseKey(key, now));
+        }
+
         // 2. Create or Update oscillators
         waves.forEach(wave => {
             let nodes = oscillatorsRef.current.get(wave.id);
+            const isNew = !nodes;
 
             if (!nodes) {
-                // Create new
-                const osc = ctx.createOscillator();
-                const gain = ctx.createGain();
-                
-                osc.type = 'sine';
-                osc.connect(gain);
-                gain.connect(masterGainRef.current!);
-                osc.start();
-
-                nodes = { osc, gain };
+                nodes = createVoice(ctx, wave, masterGainRef.current!);
                 oscillatorsRef.current.set(wave.id, nodes);
             }
 
+            const key = shapeKey(wave);
+            if (nodes.shape !== key) {
+                applyShape(ctx, nodes.osc, wave);
+                nodes.shape = key;
+            }
+
             // Update Parameters
             // Map visual freq to audio freq
-            const audioFreq = wave.freq * FREQ_MULTIPLIER;
+            const audioFreq = wave.freq * scale;
             nodes.osc.frequency.setTargetAtTime(audioFreq, now, 0.05);
 
             // Amplitude (Volume)
-            // If muted or amp is 0, gain is 0. 
-            // We normalize amp 0-100 to 0-1 gain.
-            // We also divide by waves.length (roughly) or just keep it low to avoid distortion?
-            // Let's just use the amp value directly scaled down.
-            const targetGain = wave.muted ? 0 : (wave.amp / 100);
-            nodes.gain.gain.setTargetAtTime(targetGain, now, 0.05);
+            // Same 0-100 to 0-1 mapping the visual synthesizer uses; muted layers get 0 gain.
+            if (mode !== 'note') {
+                nodes.gain.gain.setTargetAtTime(mode === 'drone' ? waveGain(wave) : 0, now, 0.05);
+                return;
+            }
+
+            // Note mode: a layer created mid-note (e.g. the first trigger started the audio) joins it
+            if (isNew) {
+                scheduleEnvelope(nodes.gain.gain, wave, noteRef.current, now, noteGainAt(wave, noteRef.current, now));
+                return;
+            }
+
+            // Otherwise leave scheduled attack/decay/release ramps alone, only follow edits
+            // while silent or sustaining
+            const note = noteRef.current;
+            const env = getEnvelope(wave);
+            const sustaining = note !== null && note.release === null && now >= note.start + env.attack + env.decay;
+            const released = note === null || (note.release !== null && now >= note.release + env.release);
+            if (sustaining) {
+                nodes.gain.gain.setTargetAtTime(waveGain(wave) * env.sustain, now, 0.05);
+            } else if (released) {
+                nodes.gain.gain.setTargetAtTime(0, now, 0.05);
+            }
         });
 
-    }, [waves, isPlaying]);
+        // 3. Modulation routing. The tap reads the source oscillator directly, at the source's
+        // amplitude but before its mute and envelope, matching the visual renderers.
+        const wanted = new Set<string>();
+        const pmDelay = new Map<number, number>();
+        waves.forEach(target => {
+            const voice = oscillatorsRef.current.get(target.id);
+            if (!voice) return;
+            (target.modulators ?? []).forEach((m, index) => {
+                const source = findModulationSource(target, m, waves);
+                const sourceVoice = source && oscillatorsRef.current.get(source.id);
+                if (!source || !sourceVoice) return;
+
+                const key = `${target.id}:${index}:${source.id}:${m.type}`;
+                wanted.add(key);
+                let tap = routesRef.current.get(key);
+                if (!tap) {
+                    tap = ctx.createGain();
+                    sourceVoice.osc.connect(tap);
+                    tap.connect(routeParam(m, voice));
+                    routesRef.current.set(key, tap);
+                }
+
+                const { gain, swing } = routeTap(m, source, target, scale);
+                if (swing > 0) pmDelay.set(target.id, (pmDelay.get(target.id) ?? 0) + swing);
+                tap.gain.setTargetAtTime(gain, now, 0.05);
+            });
+        });
+
+        routesRef.current.forEach((tap, key) => {
+            if (wanted.has(key)) return;
+            tap.disconnect();
+            routesRef.current.delete(key);
+        });
+        oscillatorsRef.current.forEach((voice, id) => {
+            voice.delay.delayTime.setTargetAtTime(Math.min(MAX_PM_DELAY / 2, pmDelay.get(id) ?? 0), now, 0.05);
+        });
+
+    }, [waves, isPlaying, mode, mapping]);
+
+    // Master stage follows the stack (for auto gain) and the bus settings
+    useEffect(() => {
+        const ctx = audioCtxRef.current;
+        const master = masterGainRef.current;
+        if (!ctx || !master) return;
+        master.gain.setTargetAtTime(masterLevel(waves, bus), ctx.currentTime, 0.05);
+        connectMaster(bus.limiter);
+    }, [waves, isPlaying, bus.volume, bus.limiter, bus.autoGain]);
 
-    return { isPlaying, toggleAudio };
+    return { isPlaying, toggleAudio, noteOn, noteOff, keyOn, keyOff, readMeter };
 };
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Piano layout on the home row: A is C, the row above holds the black keys. Physical key codes,
+// so the layout is the same on AZERTY or Dvorak keyboards.
+export const KEY_LAYOUT: { code: string, label: string }[] = [
+    { code: 'KeyA', label: 'A' }, { code: 'KeyW', label: 'W' }, { code: 'KeyS', label: 'S' },
+    { code: 'KeyE', label: 'E' }, { code: 'KeyD', label: 'D' }, { code: 'KeyF', label: 'F' },
+    { code: 'KeyT', label: 'T' }, { code: 'KeyG', label: 'G' }, { code: 'KeyY', label: 'Y' },
+    { code: 'KeyH', label: 'H' }, { code: 'KeyU', label: 'U' }, { code: 'KeyJ', label: 'J' },
+    { code: 'KeyK', label: 'K' }, { code: 'KeyO', label: 'O' }, { code: 'KeyL', label: 'L' },
+    { code: 'KeyP', label: 'P' }, { code: 'Semicolon', label: ';' }
+];
+
+export const MIN_OCTAVE = 0;
+export const MAX_OCTAVE = 8;
+
+// MIDI note of key `index` in the layout, starting from C of `octave`
+export const keyToMidi = (index: number, octave: number) => 12 * (octave + 1) + index;
+
+const isTyping = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'SELECT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+};
+
+// Turns the computer keyboard into a piano while `enabled`. Z/X shift the octave.
+// Each pressed key remembers the note it started, so shifting octaves mid-note releases the right one.
+// onNoteOff also gets the number of notes still held, which is current even before React re-renders.
+export const useComputerKeyboard = (
+    enabled: boolean,
+    onNoteOn: (midi: number) => void,
+    onNoteOff: (midi: number, stillHeld: number) => void
+) => {
+    const [octave, setOctave] = useState(4);
+    const [pressed, setPressed] = useState<Set<number>>(new Set());
+    const heldRef = useRef<Map<string, number>>(new Map());
+    const octaveRef = useRef(octave);
+    octaveRef.current = octave;
+    const callbacksRef = useRef({ onNoteOn, onNoteOff });
+    callbacksRef.current = { onNoteOn, onNoteOff };
+
+    const press = (id: string, midi: number) => {
+        if (heldRef.current.has(id)) return;
+        heldRef.current.set(id, midi);
+        setPressed(new Set(heldRef.current.values()));
+        callbacksRef.current.onNoteOn(midi);
+    };
+
+    const release = (id: string) => {
+        const midi = heldRef.current.get(id);
+        if (midi === undefined) return;
+        heldRef.current.delete(id);
+        const held = new Set(heldRef.current.values());
+        setPressed(held);
+        // Another key may still hold the same note (e.g. pointer and keyboard)
+        if (!held.has(midi)) callbacksRef.current.onNoteOff(midi, held.size);
+    };
+
+    const releaseAll = () => Array.from(heldRef.current.keys()).forEach(release);
+
+    useEffect(() => {
+        if (!enabled) {
+            releaseAll();
+            return;
+        }
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+            if (e.code === 'KeyZ' || e.code === 'KeyX') {
+                setOctave(o => Math.max(MIN_OCTAVE, Math.min(MAX_OCTAVE, o + (e.code === 'KeyX' ? 1 : -1))));
+                return;
+            }
+            const index = KEY_LAYOUT.findIndex(k => k.code === e.code);
+            if (index < 0) return;
+            e.preventDefault();
+            press(e.code, keyToMidi(index, octaveRef.current));
+        };
+        const handleKeyUp = (e: KeyboardEvent) => release(e.code);
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        // Keys released while the window is unfocused never send keyup
+        window.addEventListener('blur', releaseAll);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', releaseAll);
+            releaseAll();
+        };
+    }, [enabled]);
+
+    // For on-screen keys: `id` distinguishes them from physical keys
+    const pointerOn = (index: number) => press(`pointer:${index}`, keyToMidi(index, octaveRef.current));
+    const pointerOff = (index: number) => release(`pointer:${index}`);
+
+    return { octave, setOctave, pressed, pointerOn, pointerOff };
+};
@@ -0,0 +1,71 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Edits with the same coalesce key this close together collapse into one undo step. Callers only pass a key
+// for continuous input (slider drags, brush strokes); clicks and other discrete edits are always their own step.
+const COALESCE_WINDOW_MS = 1000;
+
+const HISTORY_LIMIT = 100;
+
+interface HistoryState<T> {
+    past: T[];
+    present: T;
+    future: T[];
+}
+
+// Undo/redo over an immutable value. Every commit is one step unless it shares a coalesce key
+// with the previous commit; checkpoint() ends the current group early (e.g. at the end of a stroke).
+export const useHistory = <T,>(initial: T | (() => T)) => {
+    const [history, setHistory] = useState<HistoryState<T>>(() => ({
+        past: [],
+        present: typeof initial === 'function' ? (initial as () => T)() : initial,
+        future: []
+    }));
+    const groupRef = useRef<{ key: string, time: number } | null>(null);
+
+    const commit = (updater: (prev: T) => T, coalesce?: string) => {
+        const now = Date.now();
+        const group = groupRef.current;
+        const merge = coalesce !== undefined && group?.key === coalesce && now - group.time < COALESCE_WINDOW_MS;
+        groupRef.current = coalesce !== undefined ? { key: coalesce, time: now } : null;
+
+        setHistory(h => {
+            const next = updater(h.present);
+            if (next === h.present) return h;
+            if (merge) return { ...h, present: next, future: [] };
+            return { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: next, future: [] };
+        });
+    };
+
+    const checkpoint = () => {
+        groupRef.current = null;
+    };
+
+    // Stable across renders, so listeners that call them (the global shortcut) are registered once
+    const undo = useCallback(() => {
+        groupRef.current = null;
+        setHistory(h => h.past.length === 0 ? h : {
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            future: [h.present, ...h.future]
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        groupRef.current = null;
+        setHistory(h => h.future.length === 0 ? h : {
+            past: [...h.past, h.present],
+            present: h.future[0],
+            future: h.future.slice(1)
+        });
+    }, []);
+
+    return {
+        present: history.present,
+        commit,
+        checkpoint,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0
+    };
+};
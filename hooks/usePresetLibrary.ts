@@ -0,0 +1,24 @@
+import { useState } from 'react';
+import { Preset, ViewMode, Wave } from '../types';
+import { loadUserPresets, storeUserPresets, createPresetId, wavesToPresetLayers } from '../utils/presets';
+
+// User presets mirrored to localStorage on every change
+export const usePresetLibrary = () => {
+    const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (next: Preset[]) => {
+        setUserPresets(next);
+        setError(storeUserPresets(next) ? null : 'Browser storage is full or unavailable, so this preset will be lost on reload.');
+    };
+
+    const savePreset = (title: string, category: string, description: string, waves: Wave[], view: ViewMode) => {
+        update([...userPresets, { id: createPresetId(), category, title, description, layers: wavesToPresetLayers(waves), view, custom: true }]);
+    };
+
+    const deletePreset = (id: string) => {
+        update(userPresets.filter(p => p.id !== id));
+    };
+
+    return { userPresets, error, savePreset, deletePreset };
+};
@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { Scene, LabDocument, ViewConfig } from '../types';
+import { loadScenes, storeScenes, createSceneId } from '../utils/scenes';
+
+// Scene list mirrored to localStorage on every change
+export const useSceneLibrary = () => {
+    const [scenes, setScenes] = useState<Scene[]>(loadScenes);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (next: Scene[]) => {
+        setScenes(next);
+        setError(storeScenes(next) ? null : 'Browser storage is full or unavailable, so this change will be lost on reload.');
+    };
+
+    const saveScene = (name: string, document: LabDocument, view: ViewConfig, thumbnail: string | null) => {
+        const now = Date.now();
+        update([{ id: createSceneId(), name, createdAt: now, updatedAt: now, thumbnail, document, view }, ...scenes]);
+    };
+
+    // Replaces a scene's content with the current setup, keeping its name
+    const overwriteScene = (id: string, document: LabDocument, view: ViewConfig, thumbnail: string | null) => {
+        update(scenes.map(s => s.id === id ? { ...s, document, view, thumbnail: thumbnail ?? s.thumbnail, updatedAt: Date.now() } : s));
+    };
+
+    const renameScene = (id: string, name: string) => {
+        update(scenes.map(s => s.id === id ? { ...s, name, updatedAt: Date.now() } : s));
+    };
+
+    const duplicateScene = (id: string) => {
+        const index = scenes.findIndex(s => s.id === id);
+        if (index < 0) return;
+        const now = Date.now();
+        const copy = { ...scenes[index], id: createSceneId(), name: `${scenes[index].name} (copy)`, createdAt: now, updatedAt: now };
+        update([...scenes.slice(0, index + 1), copy, ...scenes.slice(index + 1)]);
+    };
+
+    const deleteScene = (id: string) => {
+        update(scenes.filter(s => s.id !== id));
+    };
+
+    return { scenes, error, saveScene, overwriteScene, renameScene, duplicateScene, deleteScene };
+};
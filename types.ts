@@ -1,3 +1,26 @@
+// Oscillator waveform of a layer. 'custom' plays the layer's own harmonic table.
+export type WaveShape = 'sine' | 'square' | 'sawtooth' | 'triangle' | 'custom';
+
+// Amplitude envelope of a layer, times in seconds, sustain as a fraction of the layer amplitude
+export interface Envelope {
+    attack: number;
+    decay: number;
+    sustain: number;
+    release: number;
+}
+
+// Inter-layer modulation. The source layer's signal (at its own amplitude, even when muted) drives:
+// - 'am': the target's amplitude, scaled by (1 + depth * source)
+// - 'fm': the target's frequency, deviating by depth * source frequency (depth is the modulation index)
+// - 'pm': the target's phase, shifted by depth * source radians
+export type ModulationType = 'am' | 'fm' | 'pm';
+
+export interface Modulation {
+    source: number; // id of the modulating layer
+    type: ModulationType;
+    depth: number;
+}
+
 export interface Wave {
     id: number;
     freq: number;
@@ -5,6 +28,121 @@ export interface Wave {
     phase: number; // 0-360
     color: string;
     muted?: boolean;
+    shape?: WaveShape; // defaults to 'sine'
+    harmonics?: number[]; // 'custom' shape: relative sine amplitude of harmonics 1, 2, 3...
+    envelope?: Envelope; // used when layers are played as notes; defaults to DEFAULT_ENVELOPE
+    modulators?: Modulation[]; // modulations applied to this layer
+}
+
+// How the layer stack is played:
+// - 'drone': every layer sounds continuously
+// - 'note': the stack is triggered as one note with per-layer ADSR envelopes
+// - 'keys': the computer keyboard plays the stack polyphonically, transposed to each key
+export type PlayMode = 'drone' | 'note' | 'keys';
+
+// How layer frequencies become audible pitch:
+// - 'multiplier': audio Hz = layer freq * multiplier
+// - 'base': a layer at frequency 1 plays at basePitch Hz (other layers keep their ratio to it)
+// - 'real': layer frequencies are real Hz
+export type PitchMappingMode = 'multiplier' | 'base' | 'real';
+
+// Note naming: equal temperament, or 5-limit just intonation built on a tonic
+export type TuningSystem = 'equal' | 'just';
+
+export interface AudioMapping {
+    mode: PitchMappingMode;
+    multiplier: number;
+    basePitch: number; // Hz
+    a4: number; // reference pitch, Hz
+    tuning: TuningSystem;
+    tonic: number; // pitch class the just intonation ratios start from (0 = C)
+}
+
+// Master output stage shared by live playback
+export interface MasterBusSettings {
+    volume: number; // 0-1, applied after gain staging
+    limiter: boolean; // brick-wall-style compressor before the output
+    autoGain: boolean; // scale the stack by its summed peak instead of the fixed MASTER_GAIN
+}
+
+// Top-level tabs of the app
+export type AppTab = 'interference' | 'fourier' | 'epicycles';
+
+export type ViewMode = 'time' | 'phasor' | 'spectrum' | 'spectrogram' | 'lissajous' | 'xyz' | 'chladni' | 'fluid' | 'water';
+
+export interface ViewState {
+    zoom: number;
+    pan: { x: number; y: number };
+}
+
+// Master Output visualizer setup: active view, zoom/pan per view and animation speed
+export interface ViewConfig {
+    mode: ViewMode;
+    settings: Record<ViewMode, ViewState>;
+    speed: number;
+}
+
+// Everything undo/redo covers: the layers (with the id counter, so undone layers don't collide
+// with later ones) and the Fourier Lab drawing with its reconstruction term count
+export interface LabDocument {
+    waves: Wave[];
+    nextId: number;
+    drawing: number[];
+    harmonics: number;
+}
+
+// A saved setup in the scene library
+export interface Scene {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail: string | null; // data URL of the view at save time
+    document: LabDocument;
+    view: ViewConfig;
+}
+
+// A preset layer: a Wave without id and color, which are assigned by position when applied.
+// Modulator sources are 1-based positions in the preset's layer list.
+export type PresetLayer = Omit<Wave, 'id' | 'color'>;
+
+// A ready-made layer stack for the Physics Presets menu
+export interface Preset {
+    id: string;
+    category: string;
+    title: string;
+    description: string;
+    layers: PresetLayer[];
+    view: ViewMode; // Master Output view the preset is best seen in
+    custom?: boolean; // saved by the user (editable, stored in this browser)
+}
+
+// WaveCard slider a lesson step can point at
+export type LessonControl = 'freq' | 'amp' | 'phase';
+
+// What a lesson step waits for: a layer's control within `tolerance` of `target` (phase wraps at 360°)
+export interface LessonGoal {
+    layer: number; // layer id
+    control: LessonControl;
+    target: number;
+    tolerance: number;
+    task: string; // the instruction shown to the student
+}
+
+export interface LessonStep {
+    title: string;
+    text: string;
+    preset?: string; // preset id the step loads; omitted to continue with the current layers
+    view?: ViewMode; // defaults to the preset's view
+    highlight?: { layer: number, control: LessonControl }; // defaults to the goal's slider
+    goal?: LessonGoal;
+}
+
+export interface Lesson {
+    id: string;
+    title: string;
+    summary: string;
+    steps: LessonStep[];
 }
 
 export interface DFTCoefficient {
@@ -13,6 +151,21 @@ export interface DFTCoefficient {
     phase: number;
 }
 
+export interface Point2D {
+    x: number;
+    y: number;
+}
+
+// Full complex spectrum as returned by the FFT (unnormalized, N bins)
+export interface ComplexSpectrum {
+    re: Float64Array;
+    im: Float64Array;
+}
+
+export interface FourierAnalysis extends ComplexSpectrum {
+    coefficients: DFTCoefficient[];
+}
+
 export type PresetType = 'square' | 'saw' | 'clear';
 
 export const COLORS = [
@@ -25,3 +178,6 @@ export const COLORS = [
     '#06B6D4', // Cyan
     '#84CC16'  // Lime
 ];
+
+// Top of a layer's frequency range (the WaveCard slider); the spectrogram sample rate is chosen for it
+export const MAX_LAYER_FREQUENCY = 144;
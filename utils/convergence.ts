@@ -0,0 +1,117 @@
+import { DFTCoefficient } from '../types';
+import { synthesizePartials, coefficientToPartial } from './synth';
+import { SummationMethod, summationWeight } from './summation';
+
+export interface ConvergencePoint {
+    n: number;                  // number of terms in the partial sum (DC counts as the first)
+    rms: number;                // RMS error at the original sample points
+    maxError: number;           // largest absolute error at the original sample points
+    overshoot: number | null;   // worst overshoot past a jump, as % of the jump height (null if no jumps)
+}
+
+export interface Discontinuity {
+    index: number;  // the jump happens between sample `index` and `index + 1` (wrapping around)
+    jump: number;   // signed step height
+}
+
+// The limit of the Gibbs overshoot for a plain partial sum: ~8.95% of the jump
+export const GIBBS_OVERSHOOT_PERCENT = 8.949;
+
+// Reconstructions are evaluated on a finer grid so we catch the overshoot peaks between samples
+const OVERSAMPLING = 4;
+
+// A step counts as a discontinuity if it is both large in absolute terms and much larger
+// than the typical sample-to-sample change (so steep but smooth slopes don't qualify).
+export const findDiscontinuities = (signal: ArrayLike<number>, minJump: number = 0.1): Discontinuity[] => {
+    const N = signal.length;
+    if (N < 3) return [];
+
+    const steps: number[] = [];
+    for (let i = 0; i < N; i++) steps.push(signal[(i + 1) % N] - signal[i]);
+
+    const sorted = steps.map(Math.abs).sort((a, b) => a - b);
+    const median = sorted[Math.floor(N / 2)];
+    const threshold = Math.max(minJump, median * 8);
+
+    const result: Discontinuity[] = [];
+    steps.forEach((jump, index) => {
+        if (Math.abs(jump) >= threshold) result.push({ index, jump });
+    });
+    return result;
+};
+
+// Measures how far the reconstruction overshoots the level on each side of every jump.
+const measureOvershoot = (signal: ArrayLike<number>, reconstruction: Float32Array, jumps: Discontinuity[], n: number) => {
+    const N = signal.length;
+    const M = reconstruction.length;
+    const ratio = M / N;
+    // The first Gibbs peak sits ~1/(2n) of a period from the jump; search a little wider than that
+    const radius = Math.max(2, Math.round(M * Math.min(0.25, Math.max(0.02, 1 / n))));
+
+    let worst = 0;
+    for (const { index, jump } of jumps) {
+        const before = signal[index];
+        const after = signal[(index + 1) % N];
+        const high = Math.max(before, after);
+        const low = Math.min(before, after);
+        // Midpoint between the two samples on the fine grid
+        const center = (index + 0.5) * ratio;
+
+        for (let d = -radius; d <= radius; d++) {
+            const j = ((Math.round(center + d) % M) + M) % M;
+            const value = reconstruction[j];
+            const excess = Math.max(value - high, low - value, 0);
+            worst = Math.max(worst, (excess / Math.abs(jump)) * 100);
+        }
+    }
+    return worst;
+};
+
+export const analyzeConvergence = (
+    signal: ArrayLike<number>,
+    coefficients: DFTCoefficient[],
+    maxTerms: number = 50,
+    method: SummationMethod = 'dirichlet'
+): ConvergencePoint[] => {
+    const N = signal.length;
+    if (N === 0) return [];
+
+    const M = N * OVERSAMPLING;
+    const count = Math.min(maxTerms, coefficients.length);
+    const jumps = findDiscontinuities(signal);
+
+    // Each harmonic's waveform is rendered once; partial sums are then just weighted additions,
+    // since smoothing weights change with every truncation length.
+    const terms = coefficients.slice(0, count).map(c =>
+        synthesizePartials([coefficientToPartial(c)], { sampleRate: M, duration: 1 })
+    );
+
+    const reconstruction = new Float32Array(M);
+    const points: ConvergencePoint[] = [];
+
+    for (let n = 1; n <= count; n++) {
+        reconstruction.fill(0);
+        for (let k = 0; k < n; k++) {
+            const weight = summationWeight(method, k, n);
+            const term = terms[k];
+            for (let i = 0; i < M; i++) reconstruction[i] += weight * term[i];
+        }
+
+        let sumSq = 0;
+        let maxError = 0;
+        for (let i = 0; i < N; i++) {
+            const error = reconstruction[i * OVERSAMPLING] - signal[i];
+            sumSq += error * error;
+            maxError = Math.max(maxError, Math.abs(error));
+        }
+
+        points.push({
+            n,
+            rms: Math.sqrt(sumSq / N),
+            maxError,
+            overshoot: jumps.length > 0 ? measureOvershoot(signal, reconstruction, jumps, n) : null
+        });
+    }
+
+    return points;
+};
@@ -0,0 +1,54 @@
+import { Envelope, Wave } from '../types';
+import { synthesize, stackPeak, isActiveWave } from './synth';
+
+// Organ-like default: fast attack, full sustain, short release
+export const DEFAULT_ENVELOPE: Envelope = { attack: 0.02, decay: 0.1, sustain: 1, release: 0.2 };
+
+// How long a note is held when previewing envelopes without an actual note-off
+export const ENVELOPE_PREVIEW_HOLD = 0.5;
+
+export const getEnvelope = (wave: Wave): Envelope => wave.envelope ?? DEFAULT_ENVELOPE;
+
+// Level before any release, `t` seconds after note-on
+const gateLevel = (env: Envelope, t: number) => {
+    if (t < 0) return 0;
+    if (t < env.attack) return t / env.attack;
+    if (t < env.attack + env.decay) return 1 - (1 - env.sustain) * ((t - env.attack) / env.decay);
+    return env.sustain;
+};
+
+// Envelope level (0-1) `t` seconds after note-on, for a note released after `gate` seconds.
+// Linear segments, so it matches the linearRampToValueAtTime schedule used for playback.
+// The release ramps down from wherever the envelope was at note-off.
+export const envelopeLevel = (env: Envelope, t: number, gate: number = Infinity): number => {
+    if (t < gate) return gateLevel(env, t);
+    const from = gateLevel(env, gate);
+    if (env.release <= 0) return 0;
+    return Math.max(0, from * (1 - (t - gate) / env.release));
+};
+
+// Seconds from note-on until the envelope is silent again
+export const noteLength = (env: Envelope, gate: number) => gate + env.release;
+
+// The whole stack played as one note: every layer shaped by its own envelope, `gate` seconds held.
+// Scaled like the time view, so the worst-case composite peaks at `limit`.
+export const synthesizeNote = (
+    waves: Wave[],
+    options: { sampleRate: number, duration: number, gate: number, limit?: number }
+): Float32Array => {
+    const { sampleRate, duration, gate, limit = 1.2 } = options;
+    const active = waves.filter(isActiveWave);
+    const peak = stackPeak(waves);
+    const scale = peak > limit ? limit / peak : 1;
+
+    let out: Float32Array | null = null;
+    for (const wave of active) {
+        const env = getEnvelope(wave);
+        const layer = synthesize([wave], { sampleRate, duration, sources: waves });
+        if (!out) out = new Float32Array(layer.length);
+        for (let i = 0; i < layer.length; i++) {
+            out[i] += layer[i] * envelopeLevel(env, i / sampleRate, gate) * scale;
+        }
+    }
+    return out ?? new Float32Array(Math.max(0, Math.round(sampleRate * duration)));
+};
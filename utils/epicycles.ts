@@ -0,0 +1,114 @@
+import { DFTCoefficient, Point2D } from '../types';
+import { fft } from './fft';
+
+export type EpicycleSort = 'size' | 'frequency';
+
+// Resamples a closed path to `count` points evenly spaced along its length
+// (including the closing segment back to the start), so fast and slow strokes weigh the same.
+export const resampleByArcLength = (points: Point2D[], count: number): Point2D[] => {
+    if (points.length === 0) return [];
+    if (points.length === 1) return new Array(count).fill(null).map(() => ({ ...points[0] }));
+
+    // Cumulative length at each vertex of the closed polygon
+    const closed = [...points, points[0]];
+    const cumulative = [0];
+    for (let i = 1; i < closed.length; i++) {
+        const dx = closed[i].x - closed[i - 1].x;
+        const dy = closed[i].y - closed[i - 1].y;
+        cumulative.push(cumulative[i - 1] + Math.sqrt(dx * dx + dy * dy));
+    }
+    const total = cumulative[cumulative.length - 1];
+    if (total === 0) return new Array(count).fill(null).map(() => ({ ...points[0] }));
+
+    const result: Point2D[] = [];
+    let segment = 1;
+    for (let i = 0; i < count; i++) {
+        const target = (i / count) * total;
+        while (segment < cumulative.length - 1 && cumulative[segment] < target) segment++;
+        const start = cumulative[segment - 1];
+        const span = cumulative[segment] - start;
+        const f = span > 0 ? (target - start) / span : 0;
+        const a = closed[segment - 1];
+        const b = closed[segment];
+        result.push({ x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f });
+    }
+    return result;
+};
+
+// Complex DFT of the path (x + iy). Each term is a circle of radius `amp` spinning `freq` times
+// per cycle (negative = clockwise) starting at angle `phase`. Sum of all terms retraces the path.
+export const computeEpicycles = (path: Point2D[]): DFTCoefficient[] => {
+    const N = path.length;
+    if (N === 0) return [];
+
+    const { re, im } = fft(path.map(p => p.x), path.map(p => p.y));
+    const terms: DFTCoefficient[] = [];
+    for (let k = 0; k < N; k++) {
+        const r = re[k] / N;
+        const i = im[k] / N;
+        terms.push({
+            // Upper half of the bins are the negative frequencies
+            freq: k <= N / 2 ? k : k - N,
+            amp: Math.sqrt(r * r + i * i),
+            phase: Math.atan2(i, r)
+        });
+    }
+    return terms;
+};
+
+export const sortEpicycles = (terms: DFTCoefficient[], sort: EpicycleSort): DFTCoefficient[] => {
+    if (sort === 'size') {
+        return [...terms].sort((a, b) => b.amp - a.amp);
+    }
+    // 0, 1, -1, 2, -2, ...
+    return [...terms].sort((a, b) => Math.abs(a.freq) - Math.abs(b.freq) || b.freq - a.freq);
+};
+
+// The DC term doesn't rotate: it is the fixed anchor the chain hangs from
+export const epicycleOrigin = (terms: DFTCoefficient[]): Point2D => {
+    const dc = terms.find(term => term.freq === 0);
+    return dc ? { x: dc.amp * Math.cos(dc.phase), y: dc.amp * Math.sin(dc.phase) } : { x: 0, y: 0 };
+};
+
+// Position of every joint in the chain at time t (0-1 per cycle). The last joint is the pen.
+export const epicycleChain = (terms: DFTCoefficient[], t: number, origin: Point2D): Point2D[] => {
+    const joints: Point2D[] = [origin];
+    let x = origin.x;
+    let y = origin.y;
+    for (const term of terms) {
+        const angle = 2 * Math.PI * term.freq * t + term.phase;
+        x += term.amp * Math.cos(angle);
+        y += term.amp * Math.sin(angle);
+        joints.push({ x, y });
+    }
+    return joints;
+};
+
+export const generatePresetPath = (type: 'circle' | 'star' | 'heart', count: number = 256): Point2D[] => {
+    const path: Point2D[] = [];
+    for (let i = 0; i < count; i++) {
+        const t = (i / count) * 2 * Math.PI;
+        if (type === 'circle') {
+            path.push({ x: 0.5 + 0.3 * Math.cos(t), y: 0.5 + 0.3 * Math.sin(t) });
+        } else if (type === 'star') {
+            // Five-pointed star: radius alternates between outer and inner vertices
+            const points = 5;
+            const seg = (i / count) * points * 2;
+            const idx = Math.floor(seg);
+            const f = seg - idx;
+            const radius = (j: number) => j % 2 === 0 ? 0.38 : 0.16;
+            const angle = (j: number) => -Math.PI / 2 + (j * Math.PI) / points;
+            const ax = radius(idx) * Math.cos(angle(idx));
+            const ay = radius(idx) * Math.sin(angle(idx));
+            const bx = radius(idx + 1) * Math.cos(angle(idx + 1));
+            const by = radius(idx + 1) * Math.sin(angle(idx + 1));
+            path.push({ x: 0.5 + ax + (bx - ax) * f, y: 0.5 + ay + (by - ay) * f });
+        } else {
+            // Classic parametric heart, scaled into the unit square (y grows downward on screen)
+            const hx = 16 * Math.pow(Math.sin(t), 3);
+            const hy = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+            path.push({ x: 0.5 + hx / 45, y: 0.48 - hy / 45 });
+        }
+    }
+    return path;
+};
@@ -0,0 +1,366 @@
+// Small math expression language for typing test signals as f(t).
+//
+//   abs(sin(2*pi*t))        functions and constants
+//   exp(-5t)                implicit multiplication (5t, 2pi, 3(t+1))
+//   t < 0.3 ? 1 : 0         comparisons and ternaries for piecewise signals
+//   piecewise(t < 0.25, 0, t < 0.75, 1, 0)
+//
+// Comparisons and logical operators evaluate to 1 (true) or 0 (false).
+
+export class ExpressionError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+type TokenType = 'number' | 'name' | 'op' | 'lparen' | 'rparen' | 'comma' | 'question' | 'colon' | 'end';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+}
+
+type Node =
+    | { kind: 'number', value: number }
+    | { kind: 'variable', name: string }
+    | { kind: 'unary', op: string, operand: Node }
+    | { kind: 'binary', op: string, left: Node, right: Node }
+    | { kind: 'ternary', condition: Node, then: Node, otherwise: Node }
+    | { kind: 'call', name: string, args: Node[], position: number };
+
+export type CompiledExpression = (t: number) => number;
+
+export const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    tau: 2 * Math.PI,
+    e: Math.E,
+    phi: (1 + Math.sqrt(5)) / 2
+};
+
+// [minArgs, maxArgs, implementation]
+const FUNCTIONS: Record<string, [number, number, (...args: number[]) => number]> = {
+    sin: [1, 1, Math.sin],
+    cos: [1, 1, Math.cos],
+    tan: [1, 1, Math.tan],
+    asin: [1, 1, Math.asin],
+    acos: [1, 1, Math.acos],
+    atan: [1, 1, Math.atan],
+    atan2: [2, 2, Math.atan2],
+    sinh: [1, 1, Math.sinh],
+    cosh: [1, 1, Math.cosh],
+    tanh: [1, 1, Math.tanh],
+    exp: [1, 1, Math.exp],
+    ln: [1, 1, Math.log],
+    log: [1, 1, Math.log],
+    log10: [1, 1, Math.log10],
+    log2: [1, 1, Math.log2],
+    sqrt: [1, 1, Math.sqrt],
+    abs: [1, 1, Math.abs],
+    sign: [1, 1, Math.sign],
+    floor: [1, 1, Math.floor],
+    ceil: [1, 1, Math.ceil],
+    round: [1, 1, Math.round],
+    frac: [1, 1, x => x - Math.floor(x)],
+    min: [1, Infinity, Math.min],
+    max: [1, Infinity, Math.max],
+    pow: [2, 2, Math.pow],
+    // Always-positive modulo, so mod(t - 0.2, 1) wraps like a periodic signal should
+    mod: [2, 2, (a, b) => ((a % b) + b) % b],
+    clamp: [3, 3, (x, lo, hi) => Math.min(hi, Math.max(lo, x))],
+    step: [1, 1, x => x >= 0 ? 1 : 0],
+    // Periodic helpers with period 1 and range [-1, 1]
+    square: [1, 1, x => (x - Math.floor(x)) < 0.5 ? 1 : -1],
+    saw: [1, 1, x => 2 * (x - Math.floor(x)) - 1],
+    tri: [1, 1, x => 1 - 4 * Math.abs((x - Math.floor(x)) - 0.5)]
+};
+
+const VARIABLES = new Set(['t', 'x']);
+
+// Multi-character operators first so '<=' wins over '<'
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '**', '+', '-', '*', '/', '%', '^', '<', '>', '!'];
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+            if (!match) throw new ExpressionError(`Unexpected '${ch}'`, i);
+            tokens.push({ type: 'number', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+            tokens.push({ type: 'name', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        const single: Record<string, TokenType> = { '(': 'lparen', ')': 'rparen', ',': 'comma', '?': 'question', ':': 'colon' };
+        if (single[ch]) {
+            tokens.push({ type: single[ch], value: ch, position: i });
+            i++;
+            continue;
+        }
+
+        const op = OPERATORS.find(o => source.startsWith(o, i));
+        if (op) {
+            tokens.push({ type: 'op', value: op === '**' ? '^' : op, position: i });
+            i += op.length;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected '${ch}'`, i);
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+};
+
+// Binary operator precedence, lowest first. '^' is handled separately (right-associative).
+const BINARY_LEVELS = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '>', '<=', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+];
+
+const parse = (source: string): Node => {
+    const tokens = tokenize(source);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+
+    const expect = (type: TokenType, description: string) => {
+        const token = peek();
+        if (token.type !== type) {
+            throw new ExpressionError(
+                token.type === 'end' ? `Expected ${description} at end of input` : `Expected ${description} but found '${token.value}'`,
+                token.position
+            );
+        }
+        return next();
+    };
+
+    const parseTernary = (): Node => {
+        const condition = parseBinary(0);
+        if (peek().type !== 'question') return condition;
+        next();
+        const then = parseTernary();
+        expect('colon', "':'");
+        const otherwise = parseTernary();
+        return { kind: 'ternary', condition, then, otherwise };
+    };
+
+    const parseBinary = (level: number): Node => {
+        if (level >= BINARY_LEVELS.length) return parseUnary();
+        let left = parseBinary(level + 1);
+        while (peek().type === 'op' && BINARY_LEVELS[level].includes(peek().value)) {
+            const op = next().value;
+            const right = parseBinary(level + 1);
+            left = { kind: 'binary', op, left, right };
+        }
+        return left;
+    };
+
+    const parseUnary = (): Node => {
+        const token = peek();
+        if (token.type === 'op' && (token.value === '-' || token.value === '+' || token.value === '!')) {
+            next();
+            return { kind: 'unary', op: token.value, operand: parseUnary() };
+        }
+        return parseImplicitProduct();
+    };
+
+    // Juxtaposition binds tighter than '*' so that '1/2t' reads as 1/(2t), like on paper
+    const parseImplicitProduct = (): Node => {
+        let left = parsePower();
+        while (['number', 'name', 'lparen'].includes(peek().type)) {
+            const right = parsePower();
+            left = { kind: 'binary', op: '*', left, right };
+        }
+        return left;
+    };
+
+    const parsePower = (): Node => {
+        const base = parsePrimary();
+        if (peek().type === 'op' && peek().value === '^') {
+            next();
+            // Right-associative, and allows a signed exponent: 2^-t
+            return { kind: 'binary', op: '^', left: base, right: parseUnary() };
+        }
+        return base;
+    };
+
+    const parsePrimary = (): Node => {
+        const token = next();
+
+        if (token.type === 'number') {
+            return { kind: 'number', value: parseFloat(token.value) };
+        }
+
+        if (token.type === 'lparen') {
+            const inner = parseTernary();
+            expect('rparen', "')'");
+            return inner;
+        }
+
+        if (token.type === 'name') {
+            const name = token.value.toLowerCase();
+
+            // Variables and constants followed by '(' are implicit products: 2t(1-t)
+            const isValue = VARIABLES.has(name) || name in CONSTANTS;
+
+            if (peek().type === 'lparen' && !isValue) {
+                if (!FUNCTIONS[name] && name !== 'piecewise') {
+                    throw new ExpressionError(`Unknown function '${token.value}'`, token.position);
+                }
+                next();
+                const args: Node[] = [];
+                if (peek().type !== 'rparen') {
+                    args.push(parseTernary());
+                    while (peek().type === 'comma') {
+                        next();
+                        args.push(parseTernary());
+                    }
+                }
+                expect('rparen', "')'");
+                validateArity(name, args.length, token.position);
+                return { kind: 'call', name, args, position: token.position };
+            }
+
+            if (VARIABLES.has(name)) return { kind: 'variable', name };
+            if (name in CONSTANTS) return { kind: 'number', value: CONSTANTS[name] };
+            if (FUNCTIONS[name]) throw new ExpressionError(`'${token.value}' needs parentheses, e.g. ${name}(t)`, token.position);
+            throw new ExpressionError(`Unknown name '${token.value}'`, token.position);
+        }
+
+        if (token.type === 'end') throw new ExpressionError('Unexpected end of input', token.position);
+        throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+    };
+
+    if (peek().type === 'end') throw new ExpressionError('Expression is empty', 0);
+    const root = parseTernary();
+    if (peek().type !== 'end') {
+        throw new ExpressionError(`Unexpected '${peek().value}'`, peek().position);
+    }
+    return root;
+};
+
+const validateArity = (name: string, count: number, position: number) => {
+    if (name === 'piecewise') {
+        // (cond, value)+ followed by an optional fallback value
+        if (count < 2) throw new ExpressionError('piecewise() needs at least a condition and a value', position);
+        return;
+    }
+    const [min, max] = FUNCTIONS[name];
+    if (count < min || count > max) {
+        const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+        throw new ExpressionError(`${name}() takes ${expected} argument${min === 1 && max === 1 ? '' : 's'}, got ${count}`, position);
+    }
+};
+
+// Turns the AST into nested closures, so sampling doesn't re-walk the tree per sample
+const compileNode = (node: Node): CompiledExpression => {
+    switch (node.kind) {
+        case 'number': {
+            const value = node.value;
+            return () => value;
+        }
+        case 'variable':
+            return t => t;
+        case 'unary': {
+            const operand = compileNode(node.operand);
+            if (node.op === '-') return t => -operand(t);
+            if (node.op === '!') return t => operand(t) ? 0 : 1;
+            return operand;
+        }
+        case 'binary': {
+            const l = compileNode(node.left);
+            const r = compileNode(node.right);
+            switch (node.op) {
+                case '+': return t => l(t) + r(t);
+                case '-': return t => l(t) - r(t);
+                case '*': return t => l(t) * r(t);
+                case '/': return t => l(t) / r(t);
+                case '%': return t => l(t) % r(t);
+                case '^': return t => Math.pow(l(t), r(t));
+                case '<': return t => l(t) < r(t) ? 1 : 0;
+                case '>': return t => l(t) > r(t) ? 1 : 0;
+                case '<=': return t => l(t) <= r(t) ? 1 : 0;
+                case '>=': return t => l(t) >= r(t) ? 1 : 0;
+                case '==': return t => l(t) === r(t) ? 1 : 0;
+                case '!=': return t => l(t) !== r(t) ? 1 : 0;
+                case '&&': return t => l(t) && r(t) ? 1 : 0;
+                default: return t => l(t) || r(t) ? 1 : 0;
+            }
+        }
+        case 'ternary': {
+            const condition = compileNode(node.condition);
+            const then = compileNode(node.then);
+            const otherwise = compileNode(node.otherwise);
+            return t => condition(t) ? then(t) : otherwise(t);
+        }
+        case 'call': {
+            const args = node.args.map(compileNode);
+            if (node.name === 'piecewise') {
+                return t => {
+                    for (let i = 0; i + 1 < args.length; i += 2) {
+                        if (args[i](t)) return args[i + 1](t);
+                    }
+                    // Odd count: the last argument is the fallback
+                    return args.length % 2 === 1 ? args[args.length - 1](t) : 0;
+                };
+            }
+            const fn = FUNCTIONS[node.name][2];
+            if (args.length === 1) {
+                const a = args[0];
+                return t => fn(a(t));
+            }
+            return t => fn(...args.map(a => a(t)));
+        }
+    }
+};
+
+// Parses and compiles an expression. Throws ExpressionError with the offending position.
+export const compileExpression = (source: string): CompiledExpression => compileNode(parse(source));
+
+export interface SampledExpression {
+    samples: number[]; // clamped to the drawing range 0-1
+    clipped: number; // how many samples fell outside it
+}
+
+// Samples f(t) over one cycle, t in [0, 1). Throws if the result is not a finite number anywhere.
+export const sampleExpression = (source: string, length: number = 200): SampledExpression => {
+    const f = compileExpression(source);
+    const samples: number[] = [];
+    let clipped = 0;
+    for (let i = 0; i < length; i++) {
+        const t = i / length;
+        const value = f(t);
+        if (!Number.isFinite(value)) {
+            throw new ExpressionError(`f(t) is not a finite number at t = ${t.toFixed(3)}`, -1);
+        }
+        if (value < 0 || value > 1) clipped++;
+        samples.push(Math.max(0, Math.min(1, value)));
+    }
+    return { samples, clipped };
+};
@@ -0,0 +1,150 @@
+import { ComplexSpectrum } from '../types';
+
+// Twiddle tables are expensive to rebuild for every frame, so we cache them per transform size.
+const twiddleCache = new Map<number, { cos: Float64Array, sin: Float64Array }>();
+
+const getTwiddles = (n: number) => {
+    let table = twiddleCache.get(n);
+    if (!table) {
+        const half = n >> 1;
+        const cos = new Float64Array(half);
+        const sin = new Float64Array(half);
+        for (let i = 0; i < half; i++) {
+            cos[i] = Math.cos((2 * Math.PI * i) / n);
+            sin[i] = Math.sin((2 * Math.PI * i) / n);
+        }
+        table = { cos, sin };
+        twiddleCache.set(n, table);
+    }
+    return table;
+};
+
+export const isPowerOfTwo = (n: number): boolean => n > 0 && (n & (n - 1)) === 0;
+
+export const nextPowerOfTwo = (n: number): number => {
+    let p = 1;
+    while (p < n) p <<= 1;
+    return p;
+};
+
+// In-place iterative Cooley-Tukey. Length must be a power of two.
+// Uses the forward convention X[k] = sum x[n] * e^(-2*pi*i*k*n/N), matching the old computeDFT.
+const transformRadix2 = (re: Float64Array, im: Float64Array) => {
+    const n = re.length;
+    if (n <= 1) return;
+
+    // 1. Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            let tmp = re[i]; re[i] = re[j]; re[j] = tmp;
+            tmp = im[i]; im[i] = im[j]; im[j] = tmp;
+        }
+    }
+
+    // 2. Butterflies
+    const { cos, sin } = getTwiddles(n);
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        const step = n / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const wr = cos[k * step];
+                const wi = -sin[k * step];
+                const a = start + k;
+                const b = a + half;
+                const tr = re[b] * wr - im[b] * wi;
+                const ti = re[b] * wi + im[b] * wr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+};
+
+// Bluestein's chirp-z algorithm: expresses an arbitrary-length DFT as a circular
+// convolution, which we then evaluate with power-of-two FFTs.
+const transformBluestein = (re: Float64Array, im: Float64Array) => {
+    const n = re.length;
+    const m = nextPowerOfTwo(2 * n - 1);
+
+    // Chirp w[k] = e^(-i*pi*k^2/n). k^2 is reduced mod 2n to keep the angle precise for large n.
+    const chirpCos = new Float64Array(n);
+    const chirpSin = new Float64Array(n);
+    for (let k = 0; k < n; k++) {
+        const angle = (Math.PI * ((k * k) % (2 * n))) / n;
+        chirpCos[k] = Math.cos(angle);
+        chirpSin[k] = -Math.sin(angle);
+    }
+
+    const aRe = new Float64Array(m);
+    const aIm = new Float64Array(m);
+    for (let k = 0; k < n; k++) {
+        aRe[k] = re[k] * chirpCos[k] - im[k] * chirpSin[k];
+        aIm[k] = re[k] * chirpSin[k] + im[k] * chirpCos[k];
+    }
+
+    // Conjugate chirp, mirrored so the convolution wraps correctly
+    const bRe = new Float64Array(m);
+    const bIm = new Float64Array(m);
+    bRe[0] = chirpCos[0];
+    bIm[0] = -chirpSin[0];
+    for (let k = 1; k < n; k++) {
+        bRe[k] = bRe[m - k] = chirpCos[k];
+        bIm[k] = bIm[m - k] = -chirpSin[k];
+    }
+
+    transformRadix2(aRe, aIm);
+    transformRadix2(bRe, bIm);
+    for (let i = 0; i < m; i++) {
+        const r = aRe[i] * bRe[i] - aIm[i] * bIm[i];
+        aIm[i] = aRe[i] * bIm[i] + aIm[i] * bRe[i];
+        aRe[i] = r;
+    }
+
+    // Inverse radix-2 via the conjugation trick
+    for (let i = 0; i < m; i++) aIm[i] = -aIm[i];
+    transformRadix2(aRe, aIm);
+
+    for (let k = 0; k < n; k++) {
+        const cr = aRe[k] / m;
+        const ci = -aIm[k] / m;
+        re[k] = cr * chirpCos[k] - ci * chirpSin[k];
+        im[k] = cr * chirpSin[k] + ci * chirpCos[k];
+    }
+};
+
+const transformInPlace = (re: Float64Array, im: Float64Array) => {
+    if (re.length === 0) return;
+    if (isPowerOfTwo(re.length)) transformRadix2(re, im);
+    else transformBluestein(re, im);
+};
+
+// Forward FFT of a real or complex signal of any length. Inputs are not modified.
+// The result is the full, unnormalized complex spectrum (N bins, including negative frequencies).
+export const fft = (real: ArrayLike<number>, imag?: ArrayLike<number>): ComplexSpectrum => {
+    const re = Float64Array.from(real);
+    const im = imag ? Float64Array.from(imag) : new Float64Array(re.length);
+    transformInPlace(re, im);
+    return { re, im };
+};
+
+// Inverse FFT, scaled by 1/N so that ifft(fft(x)) === x.
+export const ifft = (real: ArrayLike<number>, imag: ArrayLike<number>): ComplexSpectrum => {
+    const n = real.length;
+    const re = Float64Array.from(real);
+    const im = new Float64Array(n);
+    for (let i = 0; i < n; i++) im[i] = -imag[i];
+
+    transformInPlace(re, im);
+
+    for (let i = 0; i < n; i++) {
+        re[i] = re[i] / n;
+        im[i] = -im[i] / n;
+    }
+    return { re, im };
+};
@@ -0,0 +1,115 @@
+import { Wave, COLORS, MAX_LAYER_FREQUENCY } from '../types';
+
+// Which multiples of the fundamental to use
+export type HarmonicSelection = 'all' | 'odd' | 'even';
+
+// Amplitude of harmonic n relative to the first generated partial:
+// - 'inverse': 1/n (sawtooth, square)
+// - 'inverse_square': 1/n² (triangle)
+// - 'exponential': e^(-rate·(n - 1))
+// - 'custom': 1/n^exponent
+export type RolloffLaw = 'inverse' | 'inverse_square' | 'exponential' | 'custom';
+
+// Starting phase of each partial:
+// - 'zero': all in sine phase
+// - 'alternating': every other partial flipped by 180°
+// - 'random': seeded, so the preview and the generated layers match
+// - 'schroeder': 180°·k(k-1)/N, which spreads the energy over the cycle and keeps the crest factor low
+export type PhasePattern = 'zero' | 'alternating' | 'random' | 'schroeder';
+
+export interface HarmonicSeriesOptions {
+    fundamental: number; // Hz (layer frequency)
+    count: number; // number of partials generated
+    selection: HarmonicSelection;
+    rolloff: RolloffLaw;
+    rate: number; // 'exponential' decay per harmonic number
+    exponent: number; // 'custom' power
+    amplitude: number; // 0-100, amplitude of the first generated partial
+    phase: PhasePattern;
+    seed: number; // 'random' phases
+    inharmonicity: number; // stiff-string coefficient B: partial n sits at n·f·√(1 + B·n²)
+}
+
+// Generated layers, and how many requested partials were left out for lying above MAX_LAYER_FREQUENCY
+export interface HarmonicSeries {
+    waves: Wave[];
+    dropped: number;
+}
+
+export const MAX_SERIES_PARTIALS = 32;
+export const MAX_INHARMONICITY = 0.01;
+
+export const DEFAULT_HARMONIC_SERIES: HarmonicSeriesOptions = {
+    fundamental: 4,
+    count: 8,
+    selection: 'all',
+    rolloff: 'inverse',
+    rate: 0.3,
+    exponent: 1.5,
+    amplitude: 60,
+    phase: 'zero',
+    seed: 1,
+    inharmonicity: 0
+};
+
+// Harmonic numbers in order: 1, 2, 3… / 1, 3, 5… / 2, 4, 6…
+export const harmonicNumbers = (selection: HarmonicSelection, count: number) =>
+    Array.from({ length: count }, (_, k) => selection === 'odd' ? 2 * k + 1 : selection === 'even' ? 2 * (k + 1) : k + 1);
+
+const rolloffWeight = (n: number, options: HarmonicSeriesOptions) => {
+    switch (options.rolloff) {
+        case 'inverse': return 1 / n;
+        case 'inverse_square': return 1 / (n * n);
+        case 'exponential': return Math.exp(-options.rate * (n - 1));
+        case 'custom': return Math.pow(n, -options.exponent);
+    }
+};
+
+// Small seeded PRNG (mulberry32)
+const seededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const partialPhases = (options: HarmonicSeriesOptions, count: number): number[] => {
+    const random = seededRandom(options.seed);
+    return Array.from({ length: count }, (_, k) => {
+        switch (options.phase) {
+            case 'zero': return 0;
+            case 'alternating': return k % 2 === 0 ? 0 : 180;
+            case 'random': return Math.floor(random() * 360);
+            case 'schroeder': {
+                const index = k + 1;
+                return ((180 * index * (index - 1)) / count) % 360;
+            }
+        }
+    });
+};
+
+const partialFrequency = (n: number, options: HarmonicSeriesOptions) =>
+    Math.round(n * options.fundamental * Math.sqrt(1 + options.inharmonicity * n * n) * 1000) / 1000;
+
+// Layers numbered from 1 with palette colors by position (the caller renumbers them when appending).
+// Frequencies only rise with n, so the partials left out are always the top of the series.
+export const generateHarmonicSeries = (options: HarmonicSeriesOptions): HarmonicSeries => {
+    const requested = harmonicNumbers(options.selection, Math.max(1, Math.min(MAX_SERIES_PARTIALS, Math.round(options.count))));
+    const numbers = requested.filter(n => partialFrequency(n, options) <= MAX_LAYER_FREQUENCY);
+    const reference = rolloffWeight(requested[0], options);
+    const phases = partialPhases(options, numbers.length);
+
+    const waves = numbers.map((n, k) => ({
+        id: k + 1,
+        freq: partialFrequency(n, options),
+        amp: Math.round((options.amplitude * rolloffWeight(n, options)) / reference * 10) / 10,
+        phase: Math.round(phases[k] * 10) / 10,
+        color: COLORS[k % COLORS.length],
+        muted: false
+    }));
+    return { waves, dropped: requested.length - numbers.length };
+};
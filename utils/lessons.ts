@@ -0,0 +1,160 @@
+import { Lesson, LessonGoal, LessonStep, Wave } from '../types';
+
+// Guided walkthroughs built on the physics presets. Layer ids in goals and highlights are the preset's
+// layer positions (presets number their layers 1, 2, 3…), shown as "Frequency N" on the cards.
+export const LESSONS: Lesson[] = [
+    {
+        id: 'interference',
+        title: 'Interference: Adding and Cancelling',
+        summary: 'Two identical waves can double each other or vanish completely, depending only on phase.',
+        steps: [
+            {
+                title: 'Perfect cancellation',
+                text: 'Frequency 1 and Frequency 2 have the same frequency and amplitude, but Frequency 2 is shifted by 180° — half a cycle. Every crest of one meets a trough of the other, so the sum (the thick line) is flat. This is destructive interference, the principle behind noise-cancelling headphones.',
+                preset: 'standing',
+                highlight: { layer: 2, control: 'phase' }
+            },
+            {
+                title: 'Bring them into step',
+                text: 'Now line the two waves up. With no phase difference, crests meet crests and the sum is twice as tall: constructive interference.',
+                goal: { layer: 2, control: 'phase', target: 0, tolerance: 5, task: 'Drag the phase of Frequency 2 to 0°.' }
+            },
+            {
+                title: 'Back to silence',
+                text: 'Watch the sum on the way back. It shrinks smoothly: at 90° the waves are a quarter cycle apart and the sum is only about 1.4× one wave, and at 180° it disappears again.',
+                goal: { layer: 2, control: 'phase', target: 180, tolerance: 3, task: 'Make the phase 180°.' }
+            },
+            {
+                title: 'Partial cancellation',
+                text: 'Cancellation is only complete when the amplitudes match. Turn Frequency 2 down and some of Frequency 1 is always left over — the reason real noise cancellation is never perfect.',
+                goal: { layer: 2, control: 'amp', target: 25, tolerance: 3, task: 'Set the amplitude of Frequency 2 to 25%.' }
+            }
+        ]
+    },
+    {
+        id: 'beats',
+        title: 'Beats and Roughness',
+        summary: 'Nearly equal frequencies drift in and out of phase, making the sum pulse.',
+        steps: [
+            {
+                title: 'Slow beats',
+                text: 'These two tones are only 0.2 apart. They slowly drift in and out of phase, so the sum swells (in phase) and fades (out of phase). The pulse rate equals the difference between the frequencies. Turn audio on to hear the "wah-wah".',
+                preset: 'beats',
+                highlight: { layer: 2, control: 'freq' }
+            },
+            {
+                title: 'Faster beats',
+                text: 'Widen the gap between the two frequencies. The bigger the difference, the faster the pulsing.',
+                goal: { layer: 2, control: 'freq', target: 10.5, tolerance: 0.05, task: 'Set Frequency 2 to 10.5 Hz.' }
+            },
+            {
+                title: 'Roughness',
+                text: 'At a 1.5 difference (30 Hz in audio) the beats come too fast to follow. Instead of pulsing, you hear a harsh buzz called roughness — the physical root of dissonance.',
+                preset: 'fast_beats'
+            },
+            {
+                title: 'Unison',
+                text: 'Tune the two layers to exactly the same frequency. The beating stops: this is how musicians tune, by listening for the beats to vanish.',
+                goal: { layer: 2, control: 'freq', target: 10, tolerance: 0.05, task: 'Tune Frequency 2 to exactly 10 Hz.' }
+            }
+        ]
+    },
+    {
+        id: 'timbre',
+        title: 'Building Waveforms from Sines',
+        summary: 'Square, triangle and sawtooth waves are recipes of harmonics.',
+        steps: [
+            {
+                title: 'A square from odd harmonics',
+                text: 'Four sine waves at f, 3f, 5f and 7f, with amplitudes falling as 1/n, already look like a square wave. The corners overshoot a little — that ripple never fully disappears (the Gibbs phenomenon).',
+                preset: 'square_approx'
+            },
+            {
+                title: 'Remove the top harmonic',
+                text: 'High harmonics are what make edges sharp. Take the highest one away and watch the corners get rounder.',
+                goal: { layer: 4, control: 'amp', target: 0, tolerance: 1, task: 'Turn the amplitude of Frequency 4 down to 0%.' }
+            },
+            {
+                title: 'A triangle',
+                text: 'A triangle wave uses the same odd harmonics, but they fall off as 1/n² and every other one is flipped by 180°. That fast roll-off gives it a soft, flute-like sound.',
+                preset: 'triangle_approx',
+                highlight: { layer: 2, control: 'phase' }
+            },
+            {
+                title: 'Phase shapes the wave',
+                text: 'Un-flip the 3rd harmonic. The spectrum is unchanged — same frequencies, same amplitudes — yet the waveform\'s peaks turn flat. Your ear barely notices; the eye clearly does.',
+                goal: { layer: 2, control: 'phase', target: 0, tolerance: 5, task: 'Set the phase of Frequency 2 to 0°.' }
+            },
+            {
+                title: 'A sawtooth from all harmonics',
+                text: 'Add the even harmonics back and you get a sawtooth: every integer multiple at 1/n. It is the brightest of the classic waveforms.',
+                preset: 'saw_approx'
+            }
+        ]
+    },
+    {
+        id: 'missing_fundamental',
+        title: 'The Missing Fundamental',
+        summary: 'Your brain can hear a pitch that isn\'t there.',
+        steps: [
+            {
+                title: 'The harmonic series',
+                text: 'A musical tone is a fundamental plus harmonics at whole-number multiples of it. The spectrum shows them as an evenly spaced ladder.',
+                preset: 'harmonic_series'
+            },
+            {
+                title: 'Harmonics without the fundamental',
+                text: 'These layers are at 5, 7.5 and 10 — harmonics 2, 3 and 4 of 2.5. There is no layer at 2.5, yet the combined wave still repeats every 1/2.5 of a second, and listeners hear its pitch. Phones and small speakers rely on this to sound bassy.',
+                preset: 'missing_fund'
+            },
+            {
+                title: 'Take away more',
+                text: 'Silence the lowest remaining layer too. With only 7.5 and 10 left, the pattern still repeats at 2.5: the pitch you perceive is set by the spacing of the harmonics, not by the lowest one.',
+                goal: { layer: 1, control: 'amp', target: 0, tolerance: 1, task: 'Turn the amplitude of Frequency 1 down to 0%.' }
+            }
+        ]
+    },
+    {
+        id: 'lissajous',
+        title: 'Lissajous Figures',
+        summary: 'Plot one wave against another and frequency ratios become shapes.',
+        steps: [
+            {
+                title: 'A circle',
+                text: 'In the Lissajous view, Frequency 1 moves the dot sideways and Frequency 2 moves it up and down. Equal frequencies a quarter cycle (90°) apart trace a circle.',
+                preset: 'lissajous_circle',
+                highlight: { layer: 2, control: 'phase' }
+            },
+            {
+                title: 'Collapse to a line',
+                text: 'Remove the phase offset. When both move in step, the dot just slides along a diagonal line; anything in between gives an ellipse. Engineers used this on oscilloscopes to measure phase.',
+                goal: { layer: 2, control: 'phase', target: 0, tolerance: 5, task: 'Set the phase of Frequency 2 to 0°.' }
+            },
+            {
+                title: 'A figure eight',
+                text: 'Now the frequencies are in a 2:1 ratio (an octave). The horizontal motion runs twice as fast, folding the loop into a figure eight.',
+                preset: 'lissajous_8'
+            },
+            {
+                title: 'A musical fifth',
+                text: 'Change the ratio to 3:2 — the perfect fifth. Simple ratios give closed, stable figures; that visual simplicity mirrors how consonant the interval sounds.',
+                goal: { layer: 2, control: 'freq', target: 4, tolerance: 0.05, task: 'Set Frequency 2 to 4 Hz (a 6:4 = 3:2 ratio).' }
+            }
+        ]
+    }
+];
+
+// Smallest distance between two values, wrapping around 360° for phase
+const goalDistance = (goal: LessonGoal, value: number) => {
+    if (goal.control !== 'phase') return Math.abs(value - goal.target);
+    const diff = Math.abs(value - goal.target) % 360;
+    return Math.min(diff, 360 - diff);
+};
+
+export const isGoalMet = (goal: LessonGoal, waves: Wave[]) => {
+    const wave = waves.find(w => w.id === goal.layer);
+    return !!wave && goalDistance(goal, wave[goal.control]) <= goal.tolerance;
+};
+
+export const stepHighlight = (step: LessonStep) =>
+    step.highlight ?? (step.goal ? { layer: step.goal.layer, control: step.goal.control } : undefined);
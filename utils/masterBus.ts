@@ -0,0 +1,25 @@
+import { MasterBusSettings, Wave } from '../types';
+import { stackPeak, MASTER_GAIN } from './synth';
+
+export const DEFAULT_MASTER_BUS: MasterBusSettings = { volume: 0.8, limiter: true, autoGain: false };
+
+// Auto gain aims the worst-case stack peak here, leaving the limiter a little room
+export const AUTO_GAIN_TARGET = 0.8;
+// ...but never boosts a quiet stack by more than this
+export const MAX_AUTO_GAIN = 4;
+
+// Limiter: fast, hard knee, high ratio, just under full scale
+export const LIMITER = { threshold: -3, knee: 0, ratio: 20, attack: 0.002, release: 0.1 };
+
+// Clip indicator threshold on the output meter (0 dBFS)
+export const CLIP_LEVEL = 1;
+
+// Linear gain of the master stage for the current stack
+export const masterLevel = (waves: Wave[], settings: MasterBusSettings) => {
+    if (!settings.autoGain) return MASTER_GAIN * settings.volume;
+    const peak = stackPeak(waves);
+    const gain = peak > 0 ? Math.min(MAX_AUTO_GAIN, AUTO_GAIN_TARGET / peak) : MASTER_GAIN;
+    return gain * settings.volume;
+};
+
+export const gainToDb = (gain: number) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
@@ -1,21 +1,25 @@
-import { DFTCoefficient } from '../types';
+import { DFTCoefficient, ComplexSpectrum, FourierAnalysis } from '../types';
+import { fft, nextPowerOfTwo } from './fft';
+import { createWindow, WindowType } from './stft';
 
-export const computeDFT = (signal: number[], maxHarmonics: number = 100): DFTCoefficient[] => {
-    const N = signal.length;
-    const coefficients: DFTCoefficient[] = [];
+// Number of samples in one drawn Fourier Lab cycle
+export const DRAWING_LENGTH = 200;
 
-    for (let k = 0; k < maxHarmonics; k++) {
-        let re = 0;
-        let im = 0;
+// Fourier Lab reconstruction terms: slider range and starting value
+export const MAX_HARMONICS = 50;
+export const DEFAULT_HARMONICS = 5;
 
-        for (let n = 0; n < N; n++) {
-            const phi = (2 * Math.PI * k * n) / N;
-            re += signal[n] * Math.cos(phi);
-            im -= signal[n] * Math.sin(phi);
-        }
+// Converts a raw FFT spectrum into one-sided harmonic coefficients (amplitude + phase per bin).
+export const spectrumToCoefficients = (spectrum: ComplexSpectrum, maxHarmonics: number = 100): DFTCoefficient[] => {
+    const N = spectrum.re.length;
+    const coefficients: DFTCoefficient[] = [];
+    if (N === 0) return coefficients;
 
-        re = re / N;
-        im = im / N;
+    for (let k = 0; k < maxHarmonics; k++) {
+        // Bins beyond N alias back onto the spectrum, exactly as the direct summation did
+        const bin = k % N;
+        const re = spectrum.re[bin] / N;
+        const im = spectrum.im[bin] / N;
 
         let freq = k;
         let amp = Math.sqrt(re * re + im * im);
@@ -33,7 +37,94 @@ export const computeDFT = (signal: number[], maxHarmonics: number = 100): DFTCoe
     return coefficients;
 };
 
-export const generatePresetWave = (type: 'square' | 'saw', length: number = 200): number[] => {
+// Returns both the harmonic coefficients and the raw complex spectrum, so callers that need
+// the full spectrum (inverse transforms, spectrum views) don't have to transform twice.
+export const analyzeSignal = (signal: ArrayLike<number>, maxHarmonics: number = 100): FourierAnalysis => {
+    const spectrum = fft(signal);
+    return {
+        coefficients: spectrumToCoefficients(spectrum, maxHarmonics),
+        re: spectrum.re,
+        im: spectrum.im
+    };
+};
+
+export const computeDFT = (signal: ArrayLike<number>, maxHarmonics: number = 100): DFTCoefficient[] => {
+    return analyzeSignal(signal, maxHarmonics).coefficients;
+};
+
+export interface PeakOptions {
+    maxPeaks?: number;      // strongest N peaks to return
+    zeroPadding?: number;   // transform length multiplier; finer bins for the interpolation to work with
+    window?: WindowType;
+    minAmp?: number;        // ignore peaks below this amplitude (signal units)
+    relativeThreshold?: number; // ignore peaks weaker than this fraction of the strongest (window sidelobes)
+}
+
+// Finds sinusoidal partials with fractional frequencies (in cycles per signal length).
+// The signal is windowed and zero-padded, then each local maximum of the magnitude spectrum is
+// refined by fitting a parabola through the log-magnitudes of the peak bin and its two neighbours.
+export const findSpectralPeaks = (signal: ArrayLike<number>, options: PeakOptions = {}): DFTCoefficient[] => {
+    const { maxPeaks = 10, zeroPadding = 8, window = 'hann', minAmp = 0.001, relativeThreshold = 0.05 } = options;
+    const N = signal.length;
+    if (N < 4) return [];
+
+    // Remove DC first, otherwise its window lobe masks the lowest partials
+    let mean = 0;
+    for (let n = 0; n < N; n++) mean += signal[n];
+    mean /= N;
+
+    const M = nextPowerOfTwo(N * Math.max(1, zeroPadding));
+    const w = createWindow(window, N);
+    const padded = new Float64Array(M);
+    let gain = 0;
+    for (let n = 0; n < N; n++) {
+        padded[n] = (signal[n] - mean) * w[n];
+        gain += w[n];
+    }
+
+    const { re, im } = fft(padded);
+    const bins = Math.floor(M / 2);
+    const logMag = new Float64Array(bins + 1);
+    for (let k = 0; k <= bins; k++) {
+        logMag[k] = Math.log(Math.sqrt(re[k] * re[k] + im[k] * im[k]) + 1e-300);
+    }
+
+    const peaks: DFTCoefficient[] = [];
+    const logMin = Math.log(minAmp * gain / 2);
+    for (let k = 1; k < bins; k++) {
+        const alpha = logMag[k - 1];
+        const beta = logMag[k];
+        const gamma = logMag[k + 1];
+        if (beta <= alpha || beta < gamma || beta < logMin) continue;
+
+        // Vertex of the parabola, as an offset from bin k in [-0.5, 0.5]
+        const denom = alpha - 2 * beta + gamma;
+        const offset = denom !== 0 ? 0.5 * (alpha - gamma) / denom : 0;
+        const peakLogMag = beta - 0.25 * (alpha - gamma) * offset;
+
+        // Padded bins are N/M cycles apart
+        const freq = ((k + offset) * N) / M;
+
+        // The window is symmetric about N/2, which adds a linear phase of -pi * (bin - freq) per cycle
+        // of mismatch. Undo it to get the phase at t = 0.
+        const binFreq = (k * N) / M;
+        const phase = Math.atan2(im[k], re[k]) + Math.PI * (binFreq - freq);
+
+        peaks.push({
+            freq,
+            amp: (2 * Math.exp(peakLogMag)) / gain,
+            phase: Math.atan2(Math.sin(phase), Math.cos(phase))
+        });
+    }
+
+    const strongest = peaks.reduce((max, p) => Math.max(max, p.amp), 0);
+    return peaks
+        .filter(p => p.amp >= strongest * relativeThreshold)
+        .sort((a, b) => b.amp - a.amp)
+        .slice(0, maxPeaks);
+};
+
+export const generatePresetWave = (type: 'square' | 'saw', length: number = DRAWING_LENGTH): number[] => {
     const wave: number[] = [];
     for (let i = 0; i < length; i++) {
         const t = i / length;
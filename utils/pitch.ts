@@ -0,0 +1,83 @@
+import { AudioMapping, Wave } from '../types';
+import { FREQ_MULTIPLIER, isActiveWave } from './synth';
+
+export const DEFAULT_AUDIO_MAPPING: AudioMapping = {
+    mode: 'multiplier',
+    multiplier: FREQ_MULTIPLIER,
+    basePitch: 55,
+    a4: 440,
+    tuning: 'equal',
+    tonic: 0
+};
+
+export const NOTE_NAMES = ['C', 'C♯', 'D', 'D♯', 'E', 'F', 'F♯', 'G', 'G♯', 'A', 'A♯', 'B'];
+
+// 5-limit just ratios for each semitone above the tonic
+export const JUST_RATIOS = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8];
+
+// Audio Hz per layer Hz
+export const audioScale = (mapping: AudioMapping) => {
+    if (mapping.mode === 'real') return 1;
+    return mapping.mode === 'base' ? mapping.basePitch : mapping.multiplier;
+};
+
+export const toAudioFreq = (freq: number, mapping: AudioMapping) => freq * audioScale(mapping);
+
+// Pitch of a MIDI note number (69 = A4) in the mapping's tuning
+export const noteFrequency = (midi: number, mapping: AudioMapping) => {
+    if (mapping.tuning === 'equal') return mapping.a4 * Math.pow(2, (midi - 69) / 12);
+    const tonic = ((mapping.tonic % 12) + 12) % 12;
+    const fromTonic = midi - (60 + tonic);
+    const octaves = Math.floor(fromTonic / 12);
+    return mapping.a4 * Math.pow(2, (tonic - 9) / 12 + octaves) * JUST_RATIOS[fromTonic - octaves * 12];
+};
+
+// Pitch the stack is heard at: its lowest sounding layer, in layer Hz
+export const stackFundamental = (waves: Wave[]): number | null => {
+    const active = waves.filter(isActiveWave);
+    return active.length > 0 ? Math.min(...active.map(w => w.freq)) : null;
+};
+
+export interface NoteInfo {
+    name: string;   // e.g. 'A'
+    octave: number; // scientific pitch notation, A4 = reference
+    freq: number;   // exact pitch of that note in the chosen tuning, Hz
+    cents: number;  // deviation of the input from it
+}
+
+const cents = (from: number, to: number) => 1200 * Math.log2(to / from);
+
+// Just ratio `step` semitones above the tonic; step 12 is the octave
+const justRatio = (step: number) => step === 12 ? 2 : JUST_RATIOS[step];
+
+// Nearest note to an audio frequency, in the mapping's tuning
+export const nearestNote = (freq: number, mapping: AudioMapping): NoteInfo | null => {
+    if (!(freq > 0) || !(mapping.a4 > 0)) return null;
+
+    if (mapping.tuning === 'equal') {
+        const midi = Math.round(69 + 12 * Math.log2(freq / mapping.a4));
+        const noteFreq = mapping.a4 * Math.pow(2, (midi - 69) / 12);
+        return { name: NOTE_NAMES[((midi % 12) + 12) % 12], octave: Math.floor(midi / 12) - 1, freq: noteFreq, cents: cents(noteFreq, freq) };
+    }
+
+    // Just intonation: the tonic in octave 4 sits where equal temperament puts it, the scale hangs off it
+    const tonic = ((mapping.tonic % 12) + 12) % 12;
+    const tonicFreq = mapping.a4 * Math.pow(2, (tonic - 9) / 12);
+    const octaves = Math.floor(Math.log2(freq / tonicFreq));
+    const ratio = freq / (tonicFreq * Math.pow(2, octaves));
+
+    // The octave above (step 12) is a candidate too, for pitches just below the next tonic
+    let best = 0;
+    for (let step = 1; step <= 12; step++) {
+        if (Math.abs(cents(justRatio(step), ratio)) < Math.abs(cents(justRatio(best), ratio))) best = step;
+    }
+    const noteFreq = tonicFreq * Math.pow(2, octaves) * justRatio(best);
+    const semitone = tonic + best;
+    return { name: NOTE_NAMES[semitone % 12], octave: 4 + octaves + Math.floor(semitone / 12), freq: noteFreq, cents: cents(noteFreq, freq) };
+};
+
+// Compact label, e.g. 'A4 +3¢'
+export const formatNote = (note: NoteInfo) => {
+    const c = Math.round(note.cents);
+    return `${note.name}${note.octave} ${c >= 0 ? '+' : '−'}${Math.abs(c)}¢`;
+};
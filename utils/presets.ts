@@ -0,0 +1,327 @@
+import { Preset, PresetLayer, ViewMode, Wave, COLORS } from '../types';
+import { readJson, writeJson, createSceneId, isObject, DEFAULT_VIEW_CONFIG } from './scenes';
+
+const USER_PRESETS_KEY = 'frequency-canvas:presets';
+
+export const DEFAULT_USER_CATEGORY = 'My Presets';
+
+const layer = (freq: number, amp: number, phase: number = 0): PresetLayer => ({ freq, amp, phase });
+
+// Built-in presets, in menu order (categories appear in the order they are first used)
+export const PRESETS: Preset[] = [
+    // --- WAVE PHYSICS ---
+    {
+        id: 'harmonic_series',
+        category: 'Wave Physics',
+        title: 'Harmonic Series (Integer Multiples)',
+        description: 'A fundamental with its integer multiples (1f, 2f, 3f…). Every instrument tone is built on this series; the spectrum shows the evenly spaced ladder of partials.',
+        layers: [layer(2, 60), layer(4, 30), layer(6, 20), layer(8, 15), layer(10, 12), layer(12, 10)],
+        view: 'spectrum'
+    },
+    {
+        id: 'beats',
+        category: 'Wave Physics',
+        title: 'Binaural Beats (Slow)',
+        description: 'Two equal tones a fraction apart. They drift in and out of phase, so the sum swells and fades at the difference frequency — the slow "wah" you hear as beating.',
+        layers: [layer(10, 50), layer(10.2, 50)],
+        view: 'time'
+    },
+    {
+        id: 'fast_beats',
+        category: 'Wave Physics',
+        title: 'Roughness (Fast Beats)',
+        description: 'The same two-tone beating, but with a difference around 30 Hz in audio. The beats get too fast to follow and are heard as a harsh buzz: roughness, the root of sensory dissonance.',
+        layers: [layer(10, 50), layer(11.5, 50)],
+        view: 'time'
+    },
+    {
+        id: 'standing',
+        category: 'Wave Physics',
+        title: 'Standing Wave (Cancellation)',
+        description: 'Two identical waves, one shifted by 180°. Every crest meets a trough, so they cancel completely (destructive interference). Nudge one phase away from 180° and the sum reappears.',
+        layers: [layer(5, 50, 0), layer(5, 50, 180)],
+        view: 'time'
+    },
+    {
+        id: 'dial_tone',
+        category: 'Wave Physics',
+        title: 'Telephone Dial Tone',
+        description: 'The North American dial tone: 350 Hz + 440 Hz, scaled down by 100 here. Set the audio mapping to ×100 in Tuning to hear the real tone.',
+        layers: [layer(3.5, 50), layer(4.4, 50)],
+        view: 'time'
+    },
+    {
+        id: 'wifi',
+        category: 'Wave Physics',
+        title: 'OFDM / Wi-Fi Signal',
+        description: 'Orthogonal Frequency Division Multiplexing: closely spaced carriers, each a whole number of cycles per symbol, so they don\'t interfere at each other\'s centre frequencies. Wi-Fi and 4G send data this way.',
+        layers: [layer(3, 40), layer(4, 40), layer(5, 40), layer(6, 40), layer(7, 40)],
+        view: 'spectrum'
+    },
+    {
+        id: 'am_synth',
+        category: 'Wave Physics',
+        title: 'AM Synthesis (Sidebands)',
+        description: 'Amplitude modulation built by hand: a carrier at 10 with two sidebands at 8 and 12. Together they trace a carrier whose loudness rises and falls at the sideband spacing.',
+        layers: [layer(8, 25), layer(10, 50), layer(12, 25)],
+        view: 'spectrum'
+    },
+    {
+        id: 'fm_approx',
+        category: 'Wave Physics',
+        title: 'FM Synthesis (Approx)',
+        description: 'Narrowband FM approximated with sidebands: carrier 10, modulator 1. The lower first sideband is phase-flipped, which turns amplitude wobble into frequency wobble.',
+        layers: [layer(10, 50), layer(11, 30), layer(9, 30, 180), layer(12, 10), layer(8, 10)],
+        view: 'spectrum'
+    },
+    {
+        id: 'am_true',
+        category: 'Wave Physics',
+        title: 'True AM (Modulation Route)',
+        description: 'Real AM: the carrier at 10 is scaled by (1 + sin) of a muted layer at 2. Compare the spectrum with the hand-built sideband version.',
+        layers: [
+            { ...layer(10, 50), modulators: [{ source: 2, type: 'am', depth: 1 }] },
+            { ...layer(2, 100), muted: true }
+        ],
+        view: 'spectrum'
+    },
+    {
+        id: 'fm_true',
+        category: 'Wave Physics',
+        title: 'True FM (Modulation Route)',
+        description: 'Real FM: carrier 10, modulator 1, index 1. The sidebands at 10 ± n follow Bessel functions; raise the index in Modulation to spread the energy wider.',
+        layers: [
+            { ...layer(10, 50), modulators: [{ source: 2, type: 'fm', depth: 1 }] },
+            { ...layer(1, 100), muted: true }
+        ],
+        view: 'spectrum'
+    },
+
+    // --- SYNTHESIS & TIMBRE ---
+    {
+        id: 'square_approx',
+        category: 'Synthesis & Timbre',
+        title: 'Square Wave (Odd Harmonics)',
+        description: 'Odd harmonics (f, 3f, 5f, 7f) at 1/n amplitude. Each added term squares off the edges; the overshoot at the corners never goes away (the Gibbs phenomenon).',
+        layers: [layer(4, 60), layer(12, 20), layer(20, 12), layer(28, 8)],
+        view: 'time'
+    },
+    {
+        id: 'triangle_approx',
+        category: 'Synthesis & Timbre',
+        title: 'Triangle Wave (Soft Odd)',
+        description: 'Odd harmonics at 1/n² amplitude with alternating phase. The fast roll-off makes it much mellower than a square, and three terms already look close.',
+        layers: [layer(4, 60), layer(12, 6.6, 180), layer(20, 2.4)],
+        view: 'time'
+    },
+    {
+        id: 'saw_approx',
+        category: 'Synthesis & Timbre',
+        title: 'Sawtooth Wave (All Harmonics)',
+        description: 'Every integer harmonic at 1/n amplitude: the bright, buzzy ramp that subtractive synthesizers start from.',
+        layers: [layer(4, 60), layer(8, 30), layer(12, 20), layer(16, 15), layer(20, 12)],
+        view: 'time'
+    },
+
+    // --- MUSIC & PSYCHOACOUSTICS ---
+    {
+        id: 'pentatonic',
+        category: 'Music & Psychoacoustics',
+        title: 'Pentatonic Scale',
+        description: 'The major pentatonic scale in just intonation: 1, 9/8, 5/4, 3/2 and 5/3 of the root. No two notes clash hard, which is why it sounds pleasant in any order.',
+        layers: [layer(4, 40), layer(4.5, 30), layer(5, 30), layer(6, 30), layer(6.66, 30)],
+        view: 'spectrum'
+    },
+    {
+        id: 'fifth',
+        category: 'Music & Psychoacoustics',
+        title: 'Perfect Fifth (2:3)',
+        description: 'Two tones in a 2:3 ratio. The pattern repeats after just a few cycles, and simple repeating patterns are heard as consonance.',
+        layers: [layer(6, 50), layer(9, 50)],
+        view: 'lissajous'
+    },
+    {
+        id: 'major',
+        category: 'Music & Psychoacoustics',
+        title: 'Major Triad (4:5:6)',
+        description: 'A just-intonation major chord: frequencies in the ratio 4:5:6, the 4th–6th harmonics of a common fundamental.',
+        layers: [layer(8, 40), layer(10, 30), layer(12, 30)],
+        view: 'time'
+    },
+    {
+        id: 'minor',
+        category: 'Music & Psychoacoustics',
+        title: 'Minor Triad (10:12:15)',
+        description: 'A just-intonation minor chord, 10:12:15. The larger numbers mean a longer repeat period, part of why minor sounds less settled than major.',
+        layers: [layer(10, 40), layer(12, 30), layer(15, 30)],
+        view: 'time'
+    },
+    {
+        id: 'maj7',
+        category: 'Music & Psychoacoustics',
+        title: 'Major 7th Chord',
+        description: 'A major triad plus the major seventh, 8:10:12:15. The 15 sits a semitone below the octave, adding a soft, jazzy tension.',
+        layers: [layer(8, 40), layer(10, 30), layer(12, 30), layer(15, 30)],
+        view: 'time'
+    },
+    {
+        id: 'cluster',
+        category: 'Music & Psychoacoustics',
+        title: 'Tone Cluster (Dissonant)',
+        description: 'Four tones packed close together. Every pair beats against the others, giving a dense, restless texture.',
+        layers: [layer(10, 25), layer(10.5, 25), layer(11, 25), layer(11.5, 25)],
+        view: 'time'
+    },
+    {
+        id: 'missing_fund',
+        category: 'Music & Psychoacoustics',
+        title: 'Missing Fundamental (Phantom Tone)',
+        description: 'Harmonics 2, 3 and 4 of a fundamental that isn\'t there (like 200, 300 and 400 Hz). The waveform still repeats at the fundamental\'s period, and your brain hears that absent pitch — the trick that lets small speakers and phones sound bassy.',
+        layers: [layer(5, 33), layer(7.5, 33), layer(10, 33)],
+        view: 'time'
+    },
+    {
+        id: 'octaves',
+        category: 'Music & Psychoacoustics',
+        title: 'Octave Stack (1:2:4)',
+        description: 'Each layer doubles the one below. Octaves blend so completely they are heard as one richer note.',
+        layers: [layer(4, 50), layer(8, 25), layer(16, 12)],
+        view: 'spectrum'
+    },
+    {
+        id: 'golden',
+        category: 'Music & Psychoacoustics',
+        title: 'Golden Ratio (Phi)',
+        description: 'Two tones a factor φ ≈ 1.618 apart: the "most irrational" ratio, so the sum never repeats and never settles into a stable pattern.',
+        layers: [layer(8, 50), layer(8 * 1.618, 50)],
+        view: 'lissajous'
+    },
+
+    // --- 2D VISUAL MATH ---
+    {
+        id: 'fibonacci',
+        category: '2D Visual Math',
+        title: 'Fibonacci Sequence',
+        description: 'Layers at 1, 2, 3, 5 and 8 — consecutive Fibonacci numbers, whose ratios approach the golden ratio.',
+        layers: [layer(1, 60), layer(2, 50), layer(3, 40), layer(5, 30), layer(8, 20)],
+        view: 'phasor'
+    },
+    {
+        id: 'lissajous_circle',
+        category: '2D Visual Math',
+        title: 'Lissajous Circle (1:1)',
+        description: 'Equal frequencies 90° apart: one drives x, the other y, and the point traces a circle. Change the phase to flatten it into an ellipse or a line.',
+        layers: [layer(5, 50, 0), layer(5, 50, 90)],
+        view: 'lissajous'
+    },
+    {
+        id: 'lissajous_knot',
+        category: '2D Visual Math',
+        title: 'Lissajous Knot (3:2)',
+        description: 'A 3:2 ratio (a perfect fifth) at 90°: three lobes one way, two the other.',
+        layers: [layer(3, 50, 0), layer(2, 50, 90)],
+        view: 'lissajous'
+    },
+    {
+        id: 'lissajous_8',
+        category: '2D Visual Math',
+        title: 'Lissajous Figure 8 (1:2)',
+        description: 'An octave (1:2) with a 90° offset draws a figure eight.',
+        layers: [layer(6, 50, 90), layer(3, 50, 0)],
+        view: 'lissajous'
+    },
+    {
+        id: 'lissajous_complex',
+        category: '2D Visual Math',
+        title: 'Complex Knot (3:4)',
+        description: 'A 3:4 ratio (a perfect fourth): the curve weaves a denser knot before it closes.',
+        layers: [layer(3, 50, 0), layer(4, 50, 90)],
+        view: 'lissajous'
+    },
+    {
+        id: 'lissajous_crown',
+        category: '2D Visual Math',
+        title: 'The Crown (5:4)',
+        description: 'A 5:4 ratio (a major third) folds into a crown-like pattern.',
+        layers: [layer(5, 50, 0), layer(4, 50, 90)],
+        view: 'lissajous'
+    },
+    {
+        id: 'cymatics',
+        category: '2D Visual Math',
+        title: 'Cymatics (Chladni Plate)',
+        description: 'Odd frequency ratios excite overlapping vibration modes on a plate. Sand collects along the nodal lines where they cancel, drawing the grid.',
+        layers: [layer(3, 50), layer(5, 50), layer(7, 30)],
+        view: 'chladni'
+    }
+];
+
+export const findPreset = (id: string, userPresets: Preset[] = []) =>
+    PRESETS.find(p => p.id === id) ?? userPresets.find(p => p.id === id);
+
+// Ids are 1-based positions, so modulator sources in the preset line up without remapping
+export const presetToWaves = (preset: Preset): Wave[] => preset.layers.map((l, i) => ({
+    ...l,
+    id: i + 1,
+    color: COLORS[i % COLORS.length],
+    muted: l.muted ?? false
+}));
+
+// The inverse, for saving the current stack: routes are re-pointed at layer positions
+export const wavesToPresetLayers = (waves: Wave[]): PresetLayer[] => waves.map(({ id, color, ...rest }) => {
+    const modulators = (rest.modulators ?? [])
+        .map(m => ({ ...m, source: waves.findIndex(w => w.id === m.source) + 1 }))
+        .filter(m => m.source > 0);
+    const result: PresetLayer = { ...rest };
+    if (modulators.length > 0) result.modulators = modulators;
+    else delete result.modulators;
+    return result;
+});
+
+// Every word of the query must appear in the title, category or description
+export const matchesPreset = (preset: Preset, query: string) => {
+    const text = `${preset.title} ${preset.category} ${preset.description}`.toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every(term => text.includes(term));
+};
+
+// Groups keep the order categories first appear in
+export const groupPresets = (presets: Preset[]): { category: string, presets: Preset[] }[] => {
+    const groups: { category: string, presets: Preset[] }[] = [];
+    presets.forEach(preset => {
+        const group = groups.find(g => g.category === preset.category);
+        if (group) group.presets.push(preset);
+        else groups.push({ category: preset.category, presets: [preset] });
+    });
+    return groups;
+};
+
+// Saved presets as read back from storage, before their layers and view are checked
+type StoredPreset = Pick<Preset, 'id' | 'category' | 'title'> & { description?: unknown; layers: unknown[]; view?: unknown };
+
+const isStoredPreset = (p: unknown): p is StoredPreset =>
+    isObject(p) && typeof p.id === 'string' && typeof p.title === 'string' && typeof p.category === 'string' && Array.isArray(p.layers);
+
+const isLayerLike = (l: unknown): l is PresetLayer =>
+    isObject(l) && typeof l.freq === 'number' && typeof l.amp === 'number' && typeof l.phase === 'number';
+
+const VIEW_MODES = Object.keys(DEFAULT_VIEW_CONFIG.settings) as ViewMode[];
+
+// Unreadable layers are dropped and an unknown view falls back to the default, so one bad entry can't break the menu
+export const loadUserPresets = (): Preset[] => {
+    const data = readJson(USER_PRESETS_KEY);
+    if (!Array.isArray(data)) return [];
+    return data
+        .filter(isStoredPreset)
+        .map((p): Preset => ({
+            ...p,
+            description: typeof p.description === 'string' ? p.description : '',
+            layers: p.layers.filter(isLayerLike),
+            view: VIEW_MODES.find(mode => mode === p.view) ?? DEFAULT_VIEW_CONFIG.mode,
+            custom: true
+        }))
+        .filter(p => p.layers.length > 0);
+};
+
+export const storeUserPresets = (presets: Preset[]) => writeJson(USER_PRESETS_KEY, presets);
+
+export const createPresetId = () => `user-${createSceneId()}`;
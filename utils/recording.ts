@@ -0,0 +1,84 @@
+import { DFTCoefficient } from '../types';
+import { findSpectralPeaks, DRAWING_LENGTH } from './math';
+
+// Longest stretch of audio handed to the peak finder (seconds). Longer segments only
+// sharpen the peaks further while making the transform much slower.
+export const MAX_SEGMENT_SECONDS = 2;
+
+// Partials weaker than this fraction of the strongest one don't count as fundamental candidates
+const FUNDAMENTAL_THRESHOLD = 0.1;
+
+// Most consecutive periods averaged together when extracting a single cycle
+const MAX_AVERAGED_CYCLES = 16;
+
+// Strongest partials of a recording segment, with frequencies in Hz and amplitudes in sample units
+export const analyzeRecording = (segment: Float32Array, sampleRate: number, maxPartials: number): DFTCoefficient[] => {
+    const N = segment.length;
+    if (N < 4) return [];
+
+    // Long segments already resolve closely spaced partials; only pad short ones heavily.
+    // Blackman sidelobes sit near -58 dB, low enough to keep quiet upper partials without mistaking lobes for them.
+    const zeroPadding = N > sampleRate / 4 ? 2 : 8;
+    return findSpectralPeaks(segment, { maxPeaks: maxPartials, zeroPadding, window: 'blackman', relativeThreshold: 0.003 })
+        .map(p => ({ ...p, freq: (p.freq * sampleRate) / N }));
+};
+
+// Lowest partial that is reasonably strong. Good enough for pitched, harmonic sources; a missing
+// fundamental will make this report the second harmonic instead.
+export const estimateFundamental = (partials: DFTCoefficient[]): number | null => {
+    const strongest = partials.reduce((max, p) => Math.max(max, p.amp), 0);
+    const candidates = partials.filter(p => p.freq > 0 && p.amp >= strongest * FUNDAMENTAL_THRESHOLD);
+    if (candidates.length === 0) return null;
+    return Math.min(...candidates.map(p => p.freq));
+};
+
+// Linear interpolation at a fractional sample index
+const sampleAt = (samples: Float32Array, index: number) => {
+    const i = Math.floor(index);
+    if (i < 0) return samples[0];
+    if (i >= samples.length - 1) return samples[samples.length - 1];
+    const f = index - i;
+    return samples[i] * (1 - f) + samples[i + 1] * f;
+};
+
+// One period of the segment, resampled to the Fourier Lab drawing length and mapped to its 0-1 range.
+// The cycle starts at a rising zero crossing and is averaged over consecutive periods to reduce noise.
+export const extractCycle = (
+    segment: Float32Array,
+    sampleRate: number,
+    fundamental: number,
+    length: number = DRAWING_LENGTH
+): number[] | null => {
+    const period = sampleRate / fundamental;
+    if (!isFinite(period) || period < 2 || period > segment.length) return null;
+
+    let mean = 0;
+    for (let i = 0; i < segment.length; i++) mean += segment[i];
+    mean /= segment.length;
+
+    // First rising zero crossing within the first period, refined to a fractional index
+    let start = 0;
+    for (let i = 1; i < Math.min(segment.length, Math.ceil(period) + 1); i++) {
+        const a = segment[i - 1] - mean;
+        const b = segment[i] - mean;
+        if (a < 0 && b >= 0) {
+            start = i - 1 + a / (a - b);
+            break;
+        }
+    }
+
+    const cycles = Math.max(1, Math.min(MAX_AVERAGED_CYCLES, Math.floor((segment.length - 1 - start) / period)));
+    const cycle = new Array(length).fill(0);
+    for (let j = 0; j < length; j++) {
+        let sum = 0;
+        for (let m = 0; m < cycles; m++) {
+            sum += sampleAt(segment, start + (m + j / length) * period) - mean;
+        }
+        cycle[j] = sum / cycles;
+    }
+
+    // Fill most of the canvas height, leaving a margin like the built-in presets
+    const peak = cycle.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    const scale = peak > 0 ? 0.4 / peak : 0;
+    return cycle.map(v => 0.5 + v * scale);
+};
@@ -0,0 +1,49 @@
+import { Wave, AudioMapping } from '../types';
+import { synthesize, MASTER_GAIN } from './synth';
+import { audioScale, DEFAULT_AUDIO_MAPPING } from './pitch';
+
+export interface RenderOptions {
+    sampleRate: number;     // Hz
+    duration: number;       // seconds
+    fadeIn: number;         // seconds
+    fadeOut: number;        // seconds
+    normalize: boolean;     // scale the loudest sample to NORMALIZE_PEAK instead of using the live master level
+}
+
+// Normalization target, -1 dBFS, leaves a little headroom for resampling and lossy encoders
+export const NORMALIZE_PEAK = Math.pow(10, -1 / 20);
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+    sampleRate: 44100,
+    duration: 5,
+    fadeIn: 0.05,
+    fadeOut: 0.25,
+    normalize: true
+};
+
+// Renders the layer stack as audio: same frequency mapping, gains and modulation as live playback, muted layers skipped.
+export const renderWaves = (waves: Wave[], options: RenderOptions, mapping: AudioMapping = DEFAULT_AUDIO_MAPPING): Float32Array => {
+    const { sampleRate, duration, normalize } = options;
+    // Scaling every frequency (sources included) keeps FM indices and waveform shapes intact
+    const scale = audioScale(mapping);
+    const audible = waves.map(w => ({ ...w, freq: w.freq * scale }));
+
+    const out = synthesize(audible, {
+        sampleRate,
+        duration,
+        normalize: normalize ? 'peak' : 'none'
+    });
+    const gain = normalize ? NORMALIZE_PEAK : MASTER_GAIN;
+
+    // Raised-cosine fades avoid the clicks of starting or stopping mid-cycle
+    const fadeInSamples = Math.min(out.length, Math.round(options.fadeIn * sampleRate));
+    const fadeOutSamples = Math.min(out.length, Math.round(options.fadeOut * sampleRate));
+    for (let i = 0; i < out.length; i++) {
+        let env = 1;
+        if (i < fadeInSamples) env *= 0.5 - 0.5 * Math.cos((Math.PI * i) / fadeInSamples);
+        const fromEnd = out.length - 1 - i;
+        if (fromEnd < fadeOutSamples) env *= 0.5 - 0.5 * Math.cos((Math.PI * fromEnd) / fadeOutSamples);
+        out[i] *= gain * env;
+    }
+    return out;
+};
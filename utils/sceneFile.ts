@@ -0,0 +1,299 @@
+import { LabDocument, ViewConfig, ViewMode, Wave, WaveShape, ModulationType, Modulation, Envelope, COLORS, MAX_LAYER_FREQUENCY } from '../types';
+import { DEFAULT_VIEW_CONFIG, MIN_VIEW_ZOOM, MAX_VIEW_ZOOM, isObject } from './scenes';
+import { DRAWING_LENGTH, DEFAULT_HARMONICS, MAX_HARMONICS } from './math';
+
+// Scene files: a portable JSON copy of one setup, for backups and for moving scenes between browsers.
+//
+// Version 1:
+// {
+//   "format": "frequency-canvas-scene",
+//   "version": 1,
+//   "name": string,
+//   "exportedAt": ISO date string,
+//   "document": {
+//     "waves": Wave[],        // see Wave in types.ts. Fields this version doesn't know are kept as they are,
+//                             // so a file written by a newer minor release still round-trips.
+//                             //   id: unique positive integer; modulators refer to layers by id
+//                             //   freq: 0-MAX_LAYER_FREQUENCY, amp: 0-100, phase: 0-360 (degrees)
+//                             //   color: one of COLORS
+//     "drawing": number[],    // Fourier Lab cycle, samples in 0-1 (0.5 is the centre line)
+//     "harmonics": number     // Fourier Lab reconstruction terms, 1-MAX_HARMONICS
+//   },
+//   "view": ViewConfig        // mode, per-view zoom/pan and animation speed; missing views use the defaults
+// }
+//
+// Version 0 is anything written before this format existed: a bare Wave[] array, an object with a `waves`
+// array, or an autosave/library entry ({ document, view }). MIGRATIONS lift it into version 1.
+// When the format changes, bump SCENE_FILE_VERSION and add a migration from the previous version.
+
+export const SCENE_FILE_FORMAT = 'frequency-canvas-scene';
+export const SCENE_FILE_VERSION = 1;
+
+export interface SceneFile {
+    format: typeof SCENE_FILE_FORMAT;
+    version: number;
+    name: string;
+    exportedAt: string;
+    document: Omit<LabDocument, 'nextId'>;
+    view: ViewConfig;
+}
+
+// A file read back in: the setup, plus a note for every value that had to be repaired
+export interface ParsedSceneFile {
+    name: string;
+    document: LabDocument;
+    view: ViewConfig;
+    issues: string[];
+}
+
+export class SceneFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SceneFileError';
+    }
+}
+
+const SHAPES: WaveShape[] = ['sine', 'square', 'sawtooth', 'triangle', 'custom'];
+const MODULATION_TYPES: ModulationType[] = ['am', 'fm', 'pm'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isInteger = (value: unknown): value is number => isNumber(value) && Number.isInteger(value);
+
+const isOneOf = <T,>(options: readonly T[], value: unknown): value is T => (options as readonly unknown[]).includes(value);
+
+// Layers and routes as read from the file, before repair
+type RawLayer = Record<string, unknown> & { freq: number };
+type RawModulation = Record<string, unknown> & Modulation;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Each entry lifts a file from version N to N + 1
+const MIGRATIONS: Record<number, (file: unknown) => unknown> = {
+    0: (legacy: unknown) => {
+        const base = { format: SCENE_FILE_FORMAT, version: 1, name: 'Imported scene' };
+        if (Array.isArray(legacy)) return { ...base, document: { waves: legacy } };
+        if (!isObject(legacy)) throw new SceneFileError('This file does not contain a scene.');
+        if (isObject(legacy.document)) {
+            return { ...base, name: typeof legacy.name === 'string' ? legacy.name : base.name, document: legacy.document, view: legacy.view };
+        }
+        if (Array.isArray(legacy.waves)) return { ...base, document: { waves: legacy.waves, drawing: legacy.drawing }, view: legacy.view };
+        throw new SceneFileError('This file does not contain a scene.');
+    }
+};
+
+const fileVersion = (data: unknown): number => {
+    if (isObject(data) && data.format === SCENE_FILE_FORMAT) {
+        if (!isNumber(data.version) || data.version < 1) throw new SceneFileError('This scene file has no valid version number.');
+        return Math.floor(data.version);
+    }
+    return 0;
+};
+
+const migrate = (data: unknown): unknown => {
+    let version = fileVersion(data);
+    if (version > SCENE_FILE_VERSION) {
+        throw new SceneFileError(`This scene file was saved by a newer version of the app (format ${version}). Update the app to open it.`);
+    }
+    let file = data;
+    while (version < SCENE_FILE_VERSION) {
+        file = MIGRATIONS[version](file);
+        version++;
+    }
+    return file;
+};
+
+// --- validation: anything repairable is fixed and reported, the rest is dropped ---
+
+const repairEnvelope = (raw: unknown): Envelope | undefined => {
+    if (!isObject(raw)) return undefined;
+    const { attack, decay, sustain, release } = raw;
+    if (!isNumber(attack) || !isNumber(decay) || !isNumber(sustain) || !isNumber(release)) return undefined;
+    return { attack: Math.max(0, attack), decay: Math.max(0, decay), sustain: clamp(sustain, 0, 1), release: Math.max(0, release) };
+};
+
+const repairWaves = (raw: unknown, issues: string[]): Wave[] => {
+    if (!Array.isArray(raw)) throw new SceneFileError('This scene file has no layers.');
+    const usable = raw.filter((w): w is RawLayer => isObject(w) && isNumber(w.freq));
+    if (usable.length < raw.length) issues.push(`Skipped ${raw.length - usable.length} layer(s) without a frequency.`);
+    if (usable.length === 0) throw new SceneFileError('This scene file has no usable layers.');
+
+    // Ids first, so modulators can follow a layer whose id had to change (the first layer with an id keeps it)
+    const idMap = new Map<number, number>();
+    const keep = usable.map(w => {
+        if (!isInteger(w.id) || w.id <= 0 || idMap.has(w.id)) return false;
+        idMap.set(w.id, w.id);
+        return true;
+    });
+    let nextId = Math.max(0, ...idMap.keys()) + 1;
+    const finalIds = usable.map((w, i) => {
+        if (keep[i]) return w.id as number;
+        if (isInteger(w.id) && !idMap.has(w.id)) idMap.set(w.id, nextId);
+        return nextId++;
+    });
+    const reassigned = keep.filter(k => !k).length;
+    if (reassigned > 0) issues.push(`Gave ${reassigned} layer(s) with a missing or duplicate id a new one.`);
+
+    const counts = { amp: 0, missingAmp: 0, phase: 0, missingPhase: 0, freq: 0, highFreq: 0, color: 0, shape: 0, envelope: 0, modulators: 0 };
+    const waves = usable.map((w, i): Wave => {
+        const amp = isNumber(w.amp) ? clamp(w.amp, 0, 100) : 50;
+        if (!isNumber(w.amp)) counts.missingAmp++;
+        else if (amp !== w.amp) counts.amp++;
+        const phase = isNumber(w.phase) ? ((w.phase % 360) + 360) % 360 : 0;
+        if (!isNumber(w.phase)) counts.missingPhase++;
+        else if (phase !== w.phase) counts.phase++;
+        const rawColor = w.color;
+        const color = typeof rawColor === 'string' ? COLORS.find(c => c.toLowerCase() === rawColor.toLowerCase()) : undefined;
+        if (!color) counts.color++;
+        if (w.freq < 0) counts.freq++;
+        if (w.freq > MAX_LAYER_FREQUENCY) counts.highFreq++;
+
+        const wave: Wave = {
+            ...w,
+            id: finalIds[i],
+            freq: clamp(w.freq, 0, MAX_LAYER_FREQUENCY),
+            amp,
+            phase,
+            color: color ?? COLORS[i % COLORS.length],
+            muted: w.muted === true
+        };
+
+        if (w.shape !== undefined && !isOneOf(SHAPES, w.shape)) { delete wave.shape; counts.shape++; }
+        if (w.harmonics !== undefined) {
+            if (Array.isArray(w.harmonics) && w.harmonics.every(isNumber)) wave.harmonics = w.harmonics.map(h => clamp(h, 0, 1));
+            else { delete wave.harmonics; counts.shape++; }
+        }
+        if (w.envelope !== undefined) {
+            const envelope = repairEnvelope(w.envelope);
+            if (envelope) wave.envelope = envelope;
+            else { delete wave.envelope; counts.envelope++; }
+        }
+        if (w.modulators !== undefined) {
+            const list: unknown[] = Array.isArray(w.modulators) ? w.modulators : [];
+            const modulators = list
+                .filter((m): m is RawModulation => isObject(m) && isOneOf(MODULATION_TYPES, m.type) && isNumber(m.depth) && isNumber(m.source) && idMap.has(m.source))
+                .map((m): Modulation => ({ ...m, source: idMap.get(m.source)!, type: m.type, depth: Math.max(0, m.depth) }))
+                .filter(m => m.source !== wave.id);
+            if (modulators.length < (Array.isArray(w.modulators) ? w.modulators.length : 1)) counts.modulators++;
+            if (modulators.length > 0) wave.modulators = modulators;
+            else delete wave.modulators;
+        }
+        return wave;
+    });
+
+    // Sources must be unmodulated (no chains); drop routes from layers that are themselves modulated
+    waves.forEach(wave => {
+        if (!wave.modulators) return;
+        const kept = wave.modulators.filter(m => !(waves.find(s => s.id === m.source)?.modulators?.length));
+        if (kept.length < wave.modulators.length) counts.modulators++;
+        if (kept.length > 0) wave.modulators = kept;
+        else delete wave.modulators;
+    });
+
+    if (counts.freq) issues.push(`Set ${counts.freq} negative frequency value(s) to 0.`);
+    if (counts.highFreq) issues.push(`Lowered ${counts.highFreq} frequency value(s) to the ${MAX_LAYER_FREQUENCY} Hz maximum.`);
+    if (counts.amp) issues.push(`Clamped ${counts.amp} amplitude value(s) into 0-100.`);
+    if (counts.missingAmp) issues.push(`Filled in ${counts.missingAmp} missing or unreadable amplitude(s) with 50%.`);
+    if (counts.phase) issues.push(`Wrapped ${counts.phase} phase value(s) into 0-360°.`);
+    if (counts.missingPhase) issues.push(`Filled in ${counts.missingPhase} missing or unreadable phase(s) with 0°.`);
+    if (counts.color) issues.push(`Replaced ${counts.color} unknown color(s) with palette colors.`);
+    if (counts.shape) issues.push(`Reset ${counts.shape} unreadable waveform shape(s).`);
+    if (counts.envelope) issues.push(`Reset ${counts.envelope} unreadable envelope(s) to the default.`);
+    if (counts.modulators) issues.push(`Removed modulation routes on ${counts.modulators} layer(s) that pointed at missing or modulated layers.`);
+    return waves;
+};
+
+const repairDrawing = (raw: unknown, issues: string[]): number[] => {
+    if (raw === undefined) return new Array(DRAWING_LENGTH).fill(0.5);
+    if (!Array.isArray(raw) || raw.length < 2 || !raw.every(isNumber)) {
+        issues.push('The Fourier drawing was unreadable and has been cleared.');
+        return new Array(DRAWING_LENGTH).fill(0.5);
+    }
+    if (raw.some(v => v < 0 || v > 1)) issues.push('Clamped Fourier drawing samples into 0-1.');
+    return raw.map(v => clamp(v, 0, 1));
+};
+
+const repairHarmonics = (raw: unknown, issues: string[]): number => {
+    if (raw === undefined) return DEFAULT_HARMONICS;
+    if (!isNumber(raw)) {
+        issues.push('The Fourier term count was unreadable and has been reset.');
+        return DEFAULT_HARMONICS;
+    }
+    const harmonics = clamp(Math.round(raw), 1, MAX_HARMONICS);
+    if (harmonics !== raw) issues.push(`Set the Fourier term count to ${harmonics}.`);
+    return harmonics;
+};
+
+const repairView = (raw: unknown, issues: string[]): ViewConfig => {
+    if (raw === undefined) return DEFAULT_VIEW_CONFIG;
+    if (!isObject(raw)) {
+        issues.push('The view settings were unreadable and have been reset.');
+        return DEFAULT_VIEW_CONFIG;
+    }
+    const modes = Object.keys(DEFAULT_VIEW_CONFIG.settings) as ViewMode[];
+    const settings = { ...DEFAULT_VIEW_CONFIG.settings };
+    let reset = 0;
+    let zoomed = 0;
+    modes.forEach(mode => {
+        const s = isObject(raw.settings) ? raw.settings[mode] : undefined;
+        if (s === undefined) return;
+        if (isObject(s) && isNumber(s.zoom) && s.zoom > 0 && isObject(s.pan) && isNumber(s.pan.x) && isNumber(s.pan.y)) {
+            const zoom = clamp(s.zoom, MIN_VIEW_ZOOM, MAX_VIEW_ZOOM);
+            if (zoom !== s.zoom) zoomed++;
+            settings[mode] = { zoom, pan: { x: s.pan.x, y: s.pan.y } };
+        } else {
+            reset++;
+        }
+    });
+    if (raw.mode !== undefined && !isOneOf(modes, raw.mode)) reset++;
+    if (raw.speed !== undefined && !(isNumber(raw.speed) && raw.speed >= 0)) reset++;
+    if (reset) issues.push(`Reset ${reset} unreadable view setting(s) to the default.`);
+    if (zoomed) issues.push(`Clamped ${zoomed} zoom value(s) into ${MIN_VIEW_ZOOM}-${MAX_VIEW_ZOOM}.`);
+    return {
+        mode: isOneOf(modes, raw.mode) ? raw.mode : DEFAULT_VIEW_CONFIG.mode,
+        settings,
+        speed: isNumber(raw.speed) && raw.speed >= 0 ? raw.speed : DEFAULT_VIEW_CONFIG.speed
+    };
+};
+
+// --- public API ---
+
+export const createSceneFile = (document: LabDocument, view: ViewConfig, name: string): SceneFile => ({
+    format: SCENE_FILE_FORMAT,
+    version: SCENE_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    document: { waves: document.waves, drawing: document.drawing, harmonics: document.harmonics },
+    view
+});
+
+export const serializeSceneFile = (document: LabDocument, view: ViewConfig, name: string) =>
+    JSON.stringify(createSceneFile(document, view, name), null, 2);
+
+// Throws SceneFileError when the text can't be used at all; otherwise repairs what it can and lists it in `issues`
+export const parseSceneFile = (text: string): ParsedSceneFile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new SceneFileError('This file is not valid JSON.');
+    }
+    if (!isObject(data) && !Array.isArray(data)) throw new SceneFileError('This file does not contain a scene.');
+
+    const file = migrate(data);
+    if (!isObject(file)) throw new SceneFileError('This file does not contain a scene.');
+    if (!isObject(file.document)) throw new SceneFileError('This scene file has no layers.');
+    const issues: string[] = [];
+    const waves = repairWaves(file.document.waves, issues);
+    return {
+        name: typeof file.name === 'string' && file.name.trim() ? file.name.trim() : 'Imported scene',
+        document: {
+            waves,
+            nextId: Math.max(...waves.map(w => w.id)) + 1,
+            drawing: repairDrawing(file.document.drawing, issues),
+            harmonics: repairHarmonics(file.document.harmonics, issues)
+        },
+        view: repairView(file.view, issues),
+        issues
+    };
+};
@@ -0,0 +1,122 @@
+import { Scene, LabDocument, ViewConfig, ViewMode, Wave } from '../types';
+import { DEFAULT_HARMONICS } from './math';
+
+const SCENES_KEY = 'frequency-canvas:scenes';
+const SESSION_KEY = 'frequency-canvas:session';
+
+export const THUMBNAIL_WIDTH = 160;
+
+export const DEFAULT_VIEW_CONFIG: ViewConfig = {
+    mode: 'time',
+    settings: {
+        time: { zoom: 1, pan: { x: 0, y: 0 } },
+        phasor: { zoom: 1, pan: { x: 0, y: 0 } },
+        spectrum: { zoom: 1, pan: { x: 0, y: 0 } },
+        spectrogram: { zoom: 1, pan: { x: 0, y: 0 } },
+        lissajous: { zoom: 1, pan: { x: 0, y: 0 } },
+        xyz: { zoom: 0.8, pan: { x: 0, y: 0 } },
+        chladni: { zoom: 0.6, pan: { x: 0, y: 0 } },
+        fluid: { zoom: 0.6, pan: { x: 0, y: 0 } },
+        water: { zoom: 1, pan: { x: 0, y: 0 } }
+    },
+    speed: 1
+};
+
+// Zoom range of every view (mouse wheel); imported zoom values are clamped into it
+export const MIN_VIEW_ZOOM = 0.1;
+export const MAX_VIEW_ZOOM = 10;
+
+// Short view names for lists and menus
+export const VIEW_LABELS: Record<ViewMode, string> = {
+    time: 'Time', phasor: 'Phasor', spectrum: 'Spectrum', spectrogram: 'Spectrogram', lissajous: 'Lissajous',
+    xyz: 'XYZ', chladni: 'Plate', fluid: 'Fluid', water: 'Ripple'
+};
+
+// What autosave keeps between visits
+export interface Session {
+    document: LabDocument;
+    view: ViewConfig;
+}
+
+// Non-null, non-array object whose fields can be inspected one by one
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Shallow shape checks for data read back from storage; anything else is ignored rather than crashing the app
+const isWaveLike = (w: unknown): w is Wave =>
+    isObject(w) && typeof w.id === 'number' && typeof w.freq === 'number' && typeof w.amp === 'number' && typeof w.phase === 'number';
+
+const isSessionLike = (s: unknown): s is Session =>
+    isObject(s) && isObject(s.document) && Array.isArray(s.document.waves) && s.document.waves.every(isWaveLike)
+    && typeof s.document.nextId === 'number' && Array.isArray(s.document.drawing)
+    && isObject(s.view) && typeof s.view.mode === 'string';
+
+const isSceneLike = (s: unknown): s is Scene =>
+    isSessionLike(s) && isObject(s) && typeof s.id === 'string' && typeof s.name === 'string';
+
+// Fills in view settings missing from older saves
+export const withViewDefaults = (view: Partial<ViewConfig>): ViewConfig => ({
+    mode: view.mode && view.mode in DEFAULT_VIEW_CONFIG.settings ? view.mode : DEFAULT_VIEW_CONFIG.mode,
+    settings: { ...DEFAULT_VIEW_CONFIG.settings, ...view.settings },
+    speed: typeof view.speed === 'number' ? view.speed : DEFAULT_VIEW_CONFIG.speed
+});
+
+// Fills in document fields missing from older saves
+export const withDocumentDefaults = (document: LabDocument): LabDocument => ({
+    ...document,
+    harmonics: typeof document.harmonics === 'number' ? document.harmonics : DEFAULT_HARMONICS
+});
+
+export const readJson = (key: string): unknown => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+// Returns false when storage is unavailable or full
+export const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+export const loadScenes = (): Scene[] => {
+    const data = readJson(SCENES_KEY);
+    if (!Array.isArray(data)) return [];
+    return data
+        .filter(isSceneLike)
+        .map(s => ({ ...s, document: withDocumentDefaults(s.document), view: withViewDefaults(s.view) }));
+};
+
+export const storeScenes = (scenes: Scene[]) => writeJson(SCENES_KEY, scenes);
+
+export const loadSession = (): Session | null => {
+    const data = readJson(SESSION_KEY);
+    return isSessionLike(data) ? { document: withDocumentDefaults(data.document), view: withViewDefaults(data.view) } : null;
+};
+
+export const storeSession = (session: Session) => writeJson(SESSION_KEY, session);
+
+export const createSceneId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Downscaled JPEG of a canvas, small enough to keep dozens of scenes in localStorage
+export const captureThumbnail = (canvas: HTMLCanvasElement, width: number = THUMBNAIL_WIDTH): string | null => {
+    if (canvas.width === 0 || canvas.height === 0) return null;
+    const thumb = document.createElement('canvas');
+    thumb.width = width;
+    thumb.height = Math.max(1, Math.round((canvas.height / canvas.width) * width));
+    const ctx = thumb.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(canvas, 0, 0, thumb.width, thumb.height);
+    try {
+        return thumb.toDataURL('image/jpeg', 0.7);
+    } catch (e) {
+        return null;
+    }
+};
@@ -0,0 +1,119 @@
+import { WaveShape } from '../types';
+
+export const SHAPE_LABELS: Record<WaveShape, string> = {
+    sine: 'Sine',
+    square: 'Square',
+    sawtooth: 'Saw',
+    triangle: 'Triangle',
+    custom: 'Custom'
+};
+
+// Starting table when a layer switches to 'custom': a soft, sawtooth-like 1/n roll-off
+export const DEFAULT_HARMONIC_TABLE = [1, 0.5, 0.33, 0.25, 0, 0, 0, 0];
+export const MAX_TABLE_HARMONICS = 8;
+
+// Points per cycle of a precomputed custom waveform
+const TABLE_SIZE = 2048;
+const TWO_PI = Math.PI * 2;
+
+// Fraction of a cycle (0-1) for any phase in radians
+const cyclePosition = (phase: number) => {
+    const u = (phase / TWO_PI) % 1;
+    return u < 0 ? u + 1 : u;
+};
+
+// Naive (not band-limited) versions of the Web Audio oscillator types. Each is aligned with sin():
+// zero at phase 0 and rising, peak 1.
+const square = (phase: number) => cyclePosition(phase) < 0.5 ? 1 : -1;
+const sawtooth = (phase: number) => {
+    const u = cyclePosition(phase);
+    return u < 0.5 ? 2 * u : 2 * u - 2;
+};
+const triangle = (phase: number) => {
+    const u = cyclePosition(phase);
+    if (u < 0.25) return 4 * u;
+    if (u < 0.75) return 2 - 4 * u;
+    return 4 * u - 4;
+};
+
+const tableCache = new Map<string, Float32Array>();
+const integralCache = new Map<string, Float32Array>();
+
+// Linear lookup into a one-cycle table with a guard point at the end
+const lookup = (table: Float32Array, phase: number) => {
+    const index = cyclePosition(phase) * TABLE_SIZE;
+    const i = Math.floor(index);
+    const f = index - i;
+    return table[i] + (table[i + 1] - table[i]) * f;
+};
+
+// One cycle of sum(h[n] * sin((n + 1) * phase)), scaled to peak 1 like a normalized PeriodicWave
+const harmonicTable = (harmonics: number[]): Float32Array => {
+    const key = harmonics.join(',');
+    const cached = tableCache.get(key);
+    if (cached) return cached;
+
+    const table = new Float32Array(TABLE_SIZE + 1);
+    let peak = 0;
+    for (let i = 0; i < TABLE_SIZE; i++) {
+        const phase = (i / TABLE_SIZE) * TWO_PI;
+        let v = 0;
+        for (let n = 0; n < harmonics.length; n++) v += harmonics[n] * Math.sin((n + 1) * phase);
+        table[i] = v;
+        peak = Math.max(peak, Math.abs(v));
+    }
+    if (peak > 0) {
+        for (let i = 0; i < TABLE_SIZE; i++) table[i] /= peak;
+    }
+    // Guard point so interpolation never has to wrap
+    table[TABLE_SIZE] = table[0];
+
+    // Editing a table creates a new key per drag step; keep the cache small
+    if (tableCache.size >= 64) tableCache.clear();
+    tableCache.set(key, table);
+    return table;
+};
+
+// Returns f(phase) for the given shape, with phase in radians and output in [-1, 1]
+export const shapeFunction = (shape: WaveShape = 'sine', harmonics: number[] = DEFAULT_HARMONIC_TABLE): ((phase: number) => number) => {
+    switch (shape) {
+        case 'square': return square;
+        case 'sawtooth': return sawtooth;
+        case 'triangle': return triangle;
+        case 'custom': {
+            const table = harmonicTable(harmonics);
+            return (phase: number) => lookup(table, phase);
+        }
+        default: return Math.sin;
+    }
+};
+
+// Zero-mean antiderivative of a shape with respect to phase (for sine: -cos).
+// Frequency modulation integrates the modulator, so this gives the phase deviation per unit index.
+export const shapeIntegral = (shape: WaveShape = 'sine', harmonics: number[] = DEFAULT_HARMONIC_TABLE): ((phase: number) => number) => {
+    if (shape === 'sine') return (phase: number) => -Math.cos(phase);
+
+    const key = shape === 'custom' ? `custom:${harmonics.join(',')}` : shape;
+    let table = integralCache.get(key);
+    if (!table) {
+        const f = shapeFunction(shape, harmonics);
+        table = new Float32Array(TABLE_SIZE + 1);
+        // Midpoint-rule cumulative sum over one cycle, then remove the mean
+        const dPhase = TWO_PI / TABLE_SIZE;
+        let sum = 0;
+        let mean = 0;
+        for (let i = 0; i < TABLE_SIZE; i++) {
+            table[i] = sum;
+            mean += sum;
+            sum += f((i + 0.5) * dPhase) * dPhase;
+        }
+        mean /= TABLE_SIZE;
+        for (let i = 0; i < TABLE_SIZE; i++) table[i] -= mean;
+        table[TABLE_SIZE] = table[0];
+
+        if (integralCache.size >= 64) integralCache.clear();
+        integralCache.set(key, table);
+    }
+    const cycle = table;
+    return (phase: number) => lookup(cycle, phase);
+};
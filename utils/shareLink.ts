@@ -0,0 +1,214 @@
+import { AppTab, LabDocument, ViewConfig, ViewMode, Wave, WaveShape, ModulationType, COLORS, MAX_LAYER_FREQUENCY } from '../types';
+import { DEFAULT_VIEW_CONFIG, MIN_VIEW_ZOOM, MAX_VIEW_ZOOM, isObject } from './scenes';
+import { DEFAULT_HARMONICS, MAX_HARMONICS } from './math';
+
+// Everything a share link restores
+export interface SharedState {
+    tab: AppTab;
+    document: LabDocument;
+    view: ViewConfig;
+}
+
+export class ShareLinkError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ShareLinkError';
+    }
+}
+
+// Link format: #s<version>.<base64url(deflate-raw(JSON payload))>
+export const SHARE_LINK_VERSION = 1;
+const HASH_PREFIX = '#s';
+
+// Enumerations are stored as indexes; only ever append to these lists
+const TABS: AppTab[] = ['interference', 'fourier', 'epicycles'];
+const VIEW_MODES: ViewMode[] = ['time', 'phasor', 'spectrum', 'spectrogram', 'lissajous', 'xyz', 'chladni', 'fluid', 'water'];
+const SHAPES: WaveShape[] = ['sine', 'square', 'sawtooth', 'triangle', 'custom'];
+const MODULATION_TYPES: ModulationType[] = ['am', 'fm', 'pm'];
+
+// Quantization steps (stored value = round(value * scale))
+const Q = { freq: 100, amp: 10, phase: 10, harmonic: 100, time: 1000, depth: 1000, zoom: 100, speed: 10, drawing: 1000 };
+
+const q = (value: number, scale: number) => Math.round(value * scale);
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// --- bytes <-> text ---
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// --- payload ---
+
+const encodeWave = (w: Wave, waves: Wave[]) => [
+    q(w.freq, Q.freq),
+    q(w.amp, Q.amp),
+    q(w.phase, Q.phase),
+    COLORS.includes(w.color) ? COLORS.indexOf(w.color) : w.color,
+    w.muted ? 1 : 0,
+    SHAPES.indexOf(w.shape ?? 'sine'),
+    w.harmonics ? w.harmonics.map(h => q(h, Q.harmonic)) : 0,
+    w.envelope ? [w.envelope.attack, w.envelope.decay, w.envelope.sustain, w.envelope.release].map(v => q(v, Q.time)) : 0,
+    // Sources by position, since ids are renumbered on load
+    w.modulators?.length
+        ? w.modulators.map(m => [waves.findIndex(s => s.id === m.source), MODULATION_TYPES.indexOf(m.type), q(m.depth, Q.depth)])
+        : 0
+];
+
+const encodePayload = (state: SharedState) => {
+    const { document, view } = state;
+    // Only views whose zoom/pan differ from the defaults
+    const views = VIEW_MODES
+        .map((mode, i) => ({ mode, i, s: view.settings[mode] }))
+        .filter(({ mode, s }) => {
+            const d = DEFAULT_VIEW_CONFIG.settings[mode];
+            return s.zoom !== d.zoom || s.pan.x !== d.pan.x || s.pan.y !== d.pan.y;
+        })
+        .map(({ i, s }) => [i, q(s.zoom, Q.zoom), Math.round(s.pan.x), Math.round(s.pan.y)]);
+    const flat = document.drawing.every(v => v === 0.5);
+
+    return {
+        t: TABS.indexOf(state.tab),
+        v: [VIEW_MODES.indexOf(view.mode), q(view.speed, Q.speed), views],
+        w: document.waves.map(w => encodeWave(w, document.waves)),
+        d: flat ? document.drawing.length : document.drawing.map(v => q(v, Q.drawing)),
+        h: document.harmonics
+    };
+};
+
+// --- validation helpers for decoding; any mismatch means a damaged link ---
+// Values that parse but fall outside a control's range are clamped into it, as the scene file importer does.
+
+const damaged = () => new ShareLinkError('This link is damaged or incomplete. Ask for a fresh link, or check that it was copied in full.');
+
+const num = (value: unknown): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw damaged();
+    return value;
+};
+
+const positive = (value: unknown): number => {
+    const n = num(value);
+    if (n <= 0) throw damaged();
+    return n;
+};
+
+const record = (value: unknown): Record<string, unknown> => {
+    if (!isObject(value)) throw damaged();
+    return value;
+};
+
+const list = (value: unknown): unknown[] => {
+    if (!Array.isArray(value)) throw damaged();
+    return value;
+};
+
+const pick = <T,>(options: T[], index: unknown): T => {
+    const value = options[num(index)];
+    if (value === undefined) throw damaged();
+    return value;
+};
+
+const decodeWave = (raw: unknown, index: number, count: number): Wave => {
+    const [freq, amp, phase, color, muted, shape, harmonics, envelope, modulators] = list(raw);
+    const wave: Wave = {
+        id: index + 1,
+        freq: Math.min(MAX_LAYER_FREQUENCY, positive(freq) / Q.freq),
+        amp: clamp(num(amp) / Q.amp, 0, 100),
+        phase: ((num(phase) / Q.phase) % 360 + 360) % 360,
+        color: typeof color === 'string' ? color : pick(COLORS, color),
+        muted: num(muted) === 1
+    };
+    const waveShape = pick(SHAPES, shape);
+    if (waveShape !== 'sine') wave.shape = waveShape;
+    if (harmonics !== 0) wave.harmonics = list(harmonics).map(h => clamp(num(h) / Q.harmonic, 0, 1));
+    if (envelope !== 0) {
+        const times = list(envelope);
+        if (times.length !== 4) throw damaged();
+        const [attack, decay, sustain, release] = times.map(v => num(v) / Q.time);
+        wave.envelope = { attack: Math.max(0, attack), decay: Math.max(0, decay), sustain: clamp(sustain, 0, 1), release: Math.max(0, release) };
+    }
+    if (modulators !== 0) {
+        wave.modulators = list(modulators).map(m => {
+            const [source, type, depth] = list(m);
+            const sourceIndex = num(source);
+            if (sourceIndex < 0 || sourceIndex >= count) throw damaged();
+            return { source: sourceIndex + 1, type: pick(MODULATION_TYPES, type), depth: Math.max(0, num(depth) / Q.depth) };
+        });
+    }
+    return wave;
+};
+
+const decodePayload = (raw: unknown): SharedState => {
+    const payload = record(raw);
+    const [mode, speed, views] = list(payload.v);
+    const settings = { ...DEFAULT_VIEW_CONFIG.settings };
+    list(views).forEach(entry => {
+        const [viewIndex, zoom, x, y] = list(entry);
+        settings[pick(VIEW_MODES, viewIndex)] = { zoom: clamp(positive(zoom) / Q.zoom, MIN_VIEW_ZOOM, MAX_VIEW_ZOOM), pan: { x: num(x), y: num(y) } };
+    });
+
+    const rawWaves = list(payload.w);
+    if (rawWaves.length === 0) throw damaged();
+    const waves = rawWaves.map((w, i) => decodeWave(w, i, rawWaves.length));
+    const drawing = typeof payload.d === 'number'
+        ? new Array(Math.max(2, Math.min(4096, Math.round(payload.d)))).fill(0.5)
+        : list(payload.d).map(v => clamp(num(v) / Q.drawing, 0, 1));
+    if (drawing.length < 2) throw damaged();
+    const viewSpeed = num(speed) / Q.speed;
+    if (viewSpeed < 0) throw damaged();
+    // Links made before the term count was shared use the default
+    const harmonics = payload.h === undefined ? DEFAULT_HARMONICS : Math.max(1, Math.min(MAX_HARMONICS, Math.round(num(payload.h))));
+
+    return {
+        tab: pick(TABS, payload.t),
+        document: { waves, nextId: waves.length + 1, drawing, harmonics },
+        view: { mode: pick(VIEW_MODES, mode), settings, speed: viewSpeed }
+    };
+};
+
+// --- public API ---
+
+export const isShareHash = (hash: string) => hash.startsWith(HASH_PREFIX);
+
+// Full URL of the current page with the state in its hash
+export const encodeShareLink = async (state: SharedState, base: string = window.location.href.split('#')[0]) => {
+    const json = new TextEncoder().encode(JSON.stringify(encodePayload(state)));
+    const packed = await transform(json, new CompressionStream('deflate-raw'));
+    return `${base}${HASH_PREFIX}${SHARE_LINK_VERSION}.${toBase64Url(packed)}`;
+};
+
+// Throws ShareLinkError with a message meant for the user
+export const decodeShareLink = async (hash: string): Promise<SharedState> => {
+    const match = /^#s(\d+)\.([A-Za-z0-9_-]+)$/.exec(hash.trim());
+    if (!match) throw damaged();
+
+    const version = parseInt(match[1]);
+    if (version > SHARE_LINK_VERSION) {
+        throw new ShareLinkError(`This link was made with a newer version of the app (format ${version}). Reload to update, then open the link again.`);
+    }
+    if (version < SHARE_LINK_VERSION) {
+        throw new ShareLinkError(`This link uses an old format (${version}) that is no longer supported. Ask for a new link.`);
+    }
+
+    let payload: unknown;
+    try {
+        const json = await transform(fromBase64Url(match[2]), new DecompressionStream('deflate-raw'));
+        payload = JSON.parse(new TextDecoder().decode(json));
+    } catch (e) {
+        throw damaged();
+    }
+    return decodePayload(payload);
+};
@@ -0,0 +1,121 @@
+import { Wave } from '../types';
+
+export type AmplitudeScale = 'linear' | 'db';
+
+export interface SpectrumSettings {
+    style: 'stem' | 'bar';
+    scale: AmplitudeScale;
+    logFreq: boolean;
+}
+
+export interface SpectrumAxes {
+    minFreq: number;
+    maxFreq: number;
+    logFreq: boolean;
+    scale: AmplitudeScale;
+}
+
+export interface PlotArea {
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+// Anything quieter than this is drawn on the floor of the dB axis
+export const SPECTRUM_FLOOR_DB = -60;
+
+// Lowest frequency a layer can be set to (matches the WaveCard slider)
+const MIN_LAYER_FREQ = 0.1;
+
+// Rounds up to 1, 2 or 5 times a power of ten
+const niceCeil = (value: number) => {
+    const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+    const normalized = value / magnitude;
+    const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+    return nice * magnitude;
+};
+
+export const ampToDb = (amp: number) => amp > 0 ? 20 * Math.log10(amp / 100) : -Infinity;
+
+// Fit the frequency axis around every layer, muted or not, so ghost stems stay on screen
+export const getSpectrumAxes = (waves: Wave[], settings: SpectrumSettings): SpectrumAxes => {
+    const freqs = waves.map(w => w.freq).filter(f => f > 0);
+    const highest = freqs.length > 0 ? Math.max(...freqs) : 10;
+    const lowest = freqs.length > 0 ? Math.min(...freqs) : 1;
+
+    if (settings.logFreq) {
+        return {
+            minFreq: Math.max(MIN_LAYER_FREQ, Math.pow(10, Math.floor(Math.log10(lowest)))),
+            maxFreq: Math.pow(10, Math.ceil(Math.log10(highest * 1.05))),
+            logFreq: true,
+            scale: settings.scale
+        };
+    }
+
+    return {
+        minFreq: 0,
+        maxFreq: niceCeil(Math.max(10, highest * 1.1)),
+        logFreq: false,
+        scale: settings.scale
+    };
+};
+
+export const getSpectrumPlotArea = (width: number, height: number): PlotArea => ({
+    left: 44,
+    right: width - 16,
+    top: 20,
+    bottom: height - 28
+});
+
+export const freqToX = (freq: number, axes: SpectrumAxes, plot: PlotArea) => {
+    let ratio: number;
+    if (axes.logFreq) {
+        const f = Math.max(axes.minFreq, freq);
+        ratio = Math.log10(f / axes.minFreq) / Math.log10(axes.maxFreq / axes.minFreq);
+    } else {
+        ratio = (freq - axes.minFreq) / (axes.maxFreq - axes.minFreq);
+    }
+    return plot.left + ratio * (plot.right - plot.left);
+};
+
+// Amplitude (0-100) to a 0-1 height on the current scale
+export const ampToLevel = (amp: number, scale: AmplitudeScale) => {
+    if (scale === 'linear') return Math.max(0, Math.min(1, amp / 100));
+    const db = Math.max(SPECTRUM_FLOOR_DB, ampToDb(amp));
+    return 1 - db / SPECTRUM_FLOOR_DB;
+};
+
+export const levelToY = (level: number, plot: PlotArea) => plot.bottom - level * (plot.bottom - plot.top);
+
+export const getFrequencyTicks = (axes: SpectrumAxes): number[] => {
+    const ticks: number[] = [];
+    if (axes.logFreq) {
+        for (let decade = axes.minFreq; decade < axes.maxFreq; decade *= 10) {
+            for (const m of [1, 2, 5]) {
+                const f = decade * m;
+                if (f <= axes.maxFreq) ticks.push(f);
+            }
+        }
+        ticks.push(axes.maxFreq);
+        return ticks;
+    }
+
+    const step = niceCeil(axes.maxFreq / 8);
+    for (let f = 0; f <= axes.maxFreq + 1e-9; f += step) ticks.push(f);
+    return ticks;
+};
+
+// Tick levels paired with their labels
+export const getLevelTicks = (scale: AmplitudeScale): { level: number, label: string }[] => {
+    if (scale === 'linear') {
+        return [0, 25, 50, 75, 100].map(a => ({ level: a / 100, label: `${a}%` }));
+    }
+    const ticks = [];
+    for (let db = 0; db >= SPECTRUM_FLOOR_DB; db -= 12) {
+        ticks.push({ level: 1 - db / SPECTRUM_FLOOR_DB, label: `${db}dB` });
+    }
+    return ticks;
+};
+
+export const formatFrequency = (freq: number) => freq >= 10 ? freq.toFixed(0) : freq.toFixed(1).replace(/\.0$/, '');
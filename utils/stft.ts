@@ -0,0 +1,71 @@
+import { fft } from './fft';
+
+export type WindowType = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+export interface STFTSettings {
+    window: WindowType;
+    size: number;   // samples per frame (any length works, powers of two are fastest)
+    hop: number;    // samples between consecutive frames
+}
+
+export const WINDOW_LABELS: Record<WindowType, string> = {
+    hann: 'Hann',
+    hamming: 'Hamming',
+    blackman: 'Blackman',
+    rectangular: 'Rectangular'
+};
+
+const windowCache = new Map<string, Float64Array>();
+
+// Periodic (DFT-even) windows, the usual choice for spectral analysis
+export const createWindow = (type: WindowType, size: number): Float64Array => {
+    const key = `${type}:${size}`;
+    const cached = windowCache.get(key);
+    if (cached) return cached;
+
+    const w = new Float64Array(size);
+    for (let n = 0; n < size; n++) {
+        const x = (2 * Math.PI * n) / size;
+        switch (type) {
+            case 'hann':
+                w[n] = 0.5 - 0.5 * Math.cos(x);
+                break;
+            case 'hamming':
+                w[n] = 0.54 - 0.46 * Math.cos(x);
+                break;
+            case 'blackman':
+                w[n] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+                break;
+            default:
+                w[n] = 1;
+        }
+    }
+    windowCache.set(key, w);
+    return w;
+};
+
+// One-sided magnitude spectrum of a single windowed frame.
+// Scaled by the window's coherent gain, so a sine of amplitude A peaks at ~A.
+export const analyzeFrame = (frame: ArrayLike<number>, type: WindowType): Float32Array => {
+    const size = frame.length;
+    const w = createWindow(type, size);
+    const windowed = new Float64Array(size);
+    let gain = 0;
+    for (let n = 0; n < size; n++) {
+        windowed[n] = frame[n] * w[n];
+        gain += w[n];
+    }
+
+    const { re, im } = fft(windowed);
+    const bins = Math.floor(size / 2) + 1;
+    const magnitudes = new Float32Array(bins);
+    const scale = gain > 0 ? 2 / gain : 0;
+    for (let k = 0; k < bins; k++) {
+        magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]) * scale;
+    }
+    // DC and Nyquist are not mirrored, so they don't get the factor of 2
+    magnitudes[0] /= 2;
+    if (size % 2 === 0) magnitudes[bins - 1] /= 2;
+    return magnitudes;
+};
+
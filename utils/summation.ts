@@ -0,0 +1,34 @@
+import { DFTCoefficient } from '../types';
+
+// How a truncated Fourier series is summed.
+// - 'dirichlet':     plain partial sum (rings near jumps, Gibbs phenomenon)
+// - 'fejer':         Cesàro mean of the partial sums, triangular weights 1 - k/N
+// - 'lanczos':       Lanczos sigma factors sinc(k/N)
+// - 'raised_cosine': Hann-shaped taper 0.5 * (1 + cos(pi*k/N))
+export type SummationMethod = 'dirichlet' | 'fejer' | 'lanczos' | 'raised_cosine';
+
+export const SUMMATION_LABELS: Record<SummationMethod, string> = {
+    dirichlet: 'Dirichlet',
+    fejer: 'Fejér',
+    lanczos: 'Lanczos σ',
+    raised_cosine: 'Raised Cosine'
+};
+
+// Weight of harmonic k when the series is truncated to `terms` terms (k = 0 is DC)
+export const summationWeight = (method: SummationMethod, k: number, terms: number): number => {
+    if (k === 0 || method === 'dirichlet') return 1;
+    const x = k / terms;
+    switch (method) {
+        case 'fejer':
+            return 1 - x;
+        case 'lanczos':
+            return Math.sin(Math.PI * x) / (Math.PI * x);
+        case 'raised_cosine':
+            return 0.5 * (1 + Math.cos(Math.PI * x));
+    }
+};
+
+// First `terms` coefficients with their amplitudes scaled by the method's weights
+export const applySummation = (coefficients: DFTCoefficient[], terms: number, method: SummationMethod): DFTCoefficient[] => {
+    return coefficients.slice(0, terms).map((c, k) => ({ ...c, amp: c.amp * summationWeight(method, k, terms) }));
+};
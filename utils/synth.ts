@@ -0,0 +1,195 @@
+import { Wave, WaveShape, Modulation, ModulationType, DFTCoefficient, COLORS } from '../types';
+import { shapeFunction, shapeIntegral } from './shapes';
+
+// A single oscillator in engine units: linear amplitude, phase in radians.
+// Every signal in the app is evaluated with the same convention: amp * sin(2*pi*freq*t + phase),
+// where non-sine shapes replace sin() with a waveform of the same period, alignment and peak.
+export interface SynthPartial {
+    freq: number;
+    amp: number;
+    phase: number;
+    shape?: WaveShape;
+    harmonics?: number[];
+    modulators?: PartialModulation[];
+}
+
+// A resolved modulation route: the source is a plain (unmodulated) partial
+export interface PartialModulation {
+    type: ModulationType;
+    depth: number;
+    source: SynthPartial;
+}
+
+// How the summed signal is scaled after synthesis.
+// - 'none':  raw sum of partials.
+// - 'limit': scale down only if the worst-case peak (sum of amplitudes) exceeds `limit`.
+// - 'sum':   always divide by the sum of amplitudes, so the output stays within [-1, 1].
+// - 'peak':  divide by the largest sample actually produced.
+export type NormalizeMode = 'none' | 'limit' | 'sum' | 'peak';
+
+export interface SynthOptions {
+    sampleRate: number;     // samples per time unit
+    duration: number;       // length of the rendered window, in time units
+    t0?: number;            // start time of the window
+    phaseShift?: number;    // extra phase (radians) added to every partial, used to scroll visual traces
+    normalize?: NormalizeMode;
+    limit?: number;         // threshold for 'limit' mode
+    includeMuted?: boolean; // render muted layers too (e.g. the per-card preview)
+    sources?: Wave[];       // layers modulation routes may refer to; defaults to the rendered layers
+}
+
+export const DEGREES_TO_RADIANS = Math.PI / 180;
+
+// Visual frequencies (1-10Hz) are too low for audio.
+// By default we multiply by this factor to map them to an audible range while preserving harmonic ratios
+// (the audio mapping in utils/pitch.ts makes it configurable).
+export const FREQ_MULTIPLIER = 20;
+
+// Output level of the audio path when auto gain is off. Reduced volume to prevent clipping with multiple waves.
+export const MASTER_GAIN = 0.2;
+
+// Helper to check if wave contributes
+export const isActiveWave = (w: Wave) => !w.muted && w.amp > 0;
+
+// Linear gain of a layer (Wave amplitudes are 0-100)
+export const waveGain = (w: Wave) => w.muted ? 0 : w.amp / 100;
+
+export const waveToPartial = (w: Wave): SynthPartial => ({
+    freq: w.freq,
+    amp: w.amp / 100,
+    phase: w.phase * DEGREES_TO_RADIANS,
+    shape: w.shape,
+    harmonics: w.harmonics
+});
+
+// DFT coefficients use the cosine convention (amp * cos(...)); cos(x) = sin(x + pi/2).
+export const coefficientToPartial = (c: DFTCoefficient): SynthPartial => ({
+    freq: c.freq,
+    amp: c.amp,
+    phase: c.phase + Math.PI / 2
+});
+
+export const sampleCount = (options: SynthOptions) => Math.max(0, Math.round(options.sampleRate * options.duration));
+
+// Largest factor amplitude modulation can multiply a partial by
+const amGain = (p: SynthPartial) => (p.modulators ?? []).reduce(
+    (gain, m) => m.type === 'am' ? gain * (1 + Math.abs(m.depth * m.source.amp)) : gain, 1
+);
+
+// Sum of absolute amplitudes: the largest value the composite could ever reach
+export const worstCasePeak = (partials: SynthPartial[]) => partials.reduce((sum, p) => sum + Math.abs(p.amp) * amGain(p), 0);
+
+// Valid routes of a layer. A layer that is itself modulated can't act as a source, so routes
+// never chain; the audio graph follows the same rule.
+export const findModulationSource = (wave: Wave, m: Modulation, sources: Wave[]): Wave | undefined => {
+    const source = sources.find(w => w.id === m.source);
+    if (!source || source.id === wave.id || (source.modulators?.length ?? 0) > 0 || m.depth === 0) return undefined;
+    return source;
+};
+
+export const resolveModulators = (wave: Wave, sources: Wave[]): PartialModulation[] => {
+    const result: PartialModulation[] = [];
+    for (const m of wave.modulators ?? []) {
+        const source = findModulationSource(wave, m, sources);
+        if (source) result.push({ type: m.type, depth: m.depth, source: waveToPartial(source) });
+    }
+    return result;
+};
+
+// Worst-case peak of the audible stack, modulation included
+export const stackPeak = (waves: Wave[]) => worstCasePeak(
+    waves.filter(isActiveWave).map(w => ({ ...waveToPartial(w), modulators: resolveModulators(w, waves) }))
+);
+
+export const synthesizePartials = (partials: SynthPartial[], options: SynthOptions): Float32Array => {
+    const { sampleRate, t0 = 0, phaseShift = 0, normalize = 'none', limit = 1 } = options;
+    const length = sampleCount(options);
+    const out = new Float32Array(length);
+
+    for (const p of partials) {
+        if (p.amp === 0) continue;
+        const omega = 2 * Math.PI * p.freq;
+        const offset = p.phase + phaseShift;
+        const wave = shapeFunction(p.shape, p.harmonics);
+
+        if (!p.modulators || p.modulators.length === 0) {
+            for (let i = 0; i < length; i++) {
+                const t = t0 + i / sampleRate;
+                out[i] += p.amp * wave(omega * t + offset);
+            }
+            continue;
+        }
+
+        // AM scales the amplitude; PM adds the source signal to the phase; FM adds its integral
+        // (so the instantaneous frequency deviates by depth * source frequency)
+        const mods = p.modulators.map(m => ({
+            type: m.type,
+            scale: m.depth * m.source.amp,
+            omega: 2 * Math.PI * m.source.freq,
+            offset: m.source.phase + phaseShift,
+            f: m.type === 'fm' ? shapeIntegral(m.source.shape, m.source.harmonics) : shapeFunction(m.source.shape, m.source.harmonics)
+        }));
+        for (let i = 0; i < length; i++) {
+            const t = t0 + i / sampleRate;
+            let amp = p.amp;
+            let phase = omega * t + offset;
+            for (const m of mods) {
+                const v = m.scale * m.f(m.omega * t + m.offset);
+                if (m.type === 'am') amp *= 1 + v;
+                else phase += v;
+            }
+            out[i] += amp * wave(phase);
+        }
+    }
+
+    let scale = 1;
+    if (normalize === 'limit') {
+        const peak = worstCasePeak(partials);
+        scale = peak > limit ? limit / peak : 1;
+    } else if (normalize === 'sum') {
+        const peak = worstCasePeak(partials);
+        scale = peak > 0 ? 1 / peak : 1;
+    } else if (normalize === 'peak') {
+        let peak = 0;
+        for (let i = 0; i < length; i++) peak = Math.max(peak, Math.abs(out[i]));
+        scale = peak > 0 ? 1 / peak : 1;
+    }
+
+    if (scale !== 1) {
+        for (let i = 0; i < length; i++) out[i] *= scale;
+    }
+    return out;
+};
+
+export const synthesize = (waves: Wave[], options: SynthOptions): Float32Array => {
+    const layers = options.includeMuted ? waves.filter(w => w.amp > 0) : waves.filter(isActiveWave);
+    const sources = options.sources ?? waves;
+    return synthesizePartials(layers.map(w => ({ ...waveToPartial(w), modulators: resolveModulators(w, sources) })), options);
+};
+
+// Turns analysis results into Wave Lab layers. The strongest term lands at 80% amplitude, terms that
+// would round to silence are dropped, and cosine phases become sine phases in degrees.
+// `freqScale` maps the analysis frequency unit onto Wave Lab frequencies.
+export const coefficientsToWaves = (coefficients: DFTCoefficient[], freqScale: number = 1): Wave[] => {
+    if (coefficients.length === 0) return [];
+
+    // Wave Lab uses 0-100 scale, DFT uses 0-0.5 approx.
+    const maxAmp = Math.max(...coefficients.map(c => c.amp));
+    const scaleFactor = maxAmp > 0.001 ? (80 / maxAmp) : 100;
+
+    const waves: Wave[] = [];
+    coefficients.forEach((c, index) => {
+        // Filter out extremely quiet harmonics to reduce clutter
+        if (c.amp * scaleFactor < 1) return;
+
+        waves.push({
+            id: index + 1,
+            freq: Math.round(c.freq * freqScale * 1000) / 1000,
+            amp: c.amp * scaleFactor,
+            phase: (coefficientToPartial(c).phase / DEGREES_TO_RADIANS + 360) % 360,
+            color: COLORS[index % COLORS.length],
+            muted: false
+        });
+    });
+    return waves;
+};
@@ -0,0 +1,171 @@
+// Minimal, dependency-free RIFF/WAVE reader and writer.
+// Reads integer PCM (8, 16, 24, 32-bit) and IEEE float (32, 64-bit), any channel count,
+// including WAVE_FORMAT_EXTENSIBLE headers. Writes 16-bit PCM or 32-bit float.
+
+export interface WavData {
+    sampleRate: number;
+    bitDepth: number;
+    format: 'pcm' | 'float';
+    channels: Float32Array[];   // one array per channel, samples in [-1, 1]
+}
+
+export class WavFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WavFormatError';
+    }
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+export type WavEncoding = 'pcm16' | 'float32';
+
+const readTag = (view: DataView, offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+export const parseWav = (buffer: ArrayBuffer): WavData => {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+        throw new WavFormatError('Not a WAV file (missing RIFF/WAVE header)');
+    }
+
+    let fmt: { format: number, channels: number, sampleRate: number, blockAlign: number, bitDepth: number } | null = null;
+    let dataOffset = -1;
+    let dataLength = 0;
+
+    // Walk the chunk list; chunks are word-aligned
+    let offset = 12;
+    while (offset + 8 <= buffer.byteLength) {
+        const id = readTag(view, offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+
+        if (id === 'fmt ') {
+            if (size < 16 || body + 16 > buffer.byteLength) throw new WavFormatError('Malformed fmt chunk');
+            let format = view.getUint16(body, true);
+            // Extensible headers carry the real format in the first two bytes of the sub-format GUID
+            if (format === FORMAT_EXTENSIBLE && size >= 26 && body + 26 <= buffer.byteLength) {
+                format = view.getUint16(body + 24, true);
+            }
+            fmt = {
+                format,
+                channels: view.getUint16(body + 2, true),
+                sampleRate: view.getUint32(body + 4, true),
+                blockAlign: view.getUint16(body + 12, true),
+                bitDepth: view.getUint16(body + 14, true)
+            };
+        } else if (id === 'data') {
+            dataOffset = body;
+            // Some writers leave the size at 0 or too large when streaming; clamp to the file
+            dataLength = Math.min(size || buffer.byteLength - body, buffer.byteLength - body);
+            break;
+        }
+
+        offset = body + size + (size % 2);
+    }
+
+    if (!fmt) throw new WavFormatError('Missing fmt chunk');
+    if (dataOffset < 0) throw new WavFormatError('Missing data chunk');
+    if (fmt.channels < 1) throw new WavFormatError('File has no audio channels');
+    if (fmt.sampleRate <= 0) throw new WavFormatError('Malformed fmt chunk (sample rate is 0)');
+
+    const { format, channels: channelCount, bitDepth, sampleRate } = fmt;
+    const bytesPerSample = bitDepth / 8;
+    const isPcm = format === FORMAT_PCM && [8, 16, 24, 32].includes(bitDepth);
+    const isFloat = format === FORMAT_FLOAT && (bitDepth === 32 || bitDepth === 64);
+    if (!isPcm && !isFloat) {
+        throw new WavFormatError(`Unsupported encoding (format ${format}, ${bitDepth}-bit). Use PCM or float WAV.`);
+    }
+
+    const blockAlign = fmt.blockAlign || bytesPerSample * channelCount;
+    // A smaller block would make the last frames read past the end of the file
+    if (blockAlign < bytesPerSample * channelCount) {
+        throw new WavFormatError(`Malformed fmt chunk (block size ${blockAlign} is too small for ${channelCount} × ${bitDepth}-bit samples)`);
+    }
+    const frames = Math.floor(dataLength / blockAlign);
+    const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+
+    for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < channelCount; c++) {
+            const p = dataOffset + i * blockAlign + c * bytesPerSample;
+            let value: number;
+            if (isFloat) {
+                value = bitDepth === 32 ? view.getFloat32(p, true) : view.getFloat64(p, true);
+            } else if (bitDepth === 8) {
+                // 8-bit PCM is unsigned
+                value = (view.getUint8(p) - 128) / 128;
+            } else if (bitDepth === 16) {
+                value = view.getInt16(p, true) / 32768;
+            } else if (bitDepth === 24) {
+                const raw = view.getUint8(p) | (view.getUint8(p + 1) << 8) | (view.getUint8(p + 2) << 16);
+                value = ((raw << 8) >> 8) / 8388608; // sign-extend from 24 bits
+            } else {
+                value = view.getInt32(p, true) / 2147483648;
+            }
+            channels[c][i] = value;
+        }
+    }
+
+    return { sampleRate, bitDepth, format: isFloat ? 'float' : 'pcm', channels };
+};
+
+// Average all channels into one
+export const mixToMono = (data: WavData): Float32Array => {
+    if (data.channels.length === 1) return data.channels[0];
+    const length = data.channels[0].length;
+    const mono = new Float32Array(length);
+    for (const channel of data.channels) {
+        for (let i = 0; i < length; i++) mono[i] += channel[i];
+    }
+    for (let i = 0; i < length; i++) mono[i] /= data.channels.length;
+    return mono;
+};
+
+const writeTag = (view: DataView, offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+};
+
+// Interleaves the channels into a canonical 44-byte-header WAV file. Samples outside [-1, 1]
+// are clipped for 16-bit output; float output keeps them as-is.
+export const encodeWav = (channels: Float32Array[], sampleRate: number, encoding: WavEncoding): ArrayBuffer => {
+    const channelCount = channels.length;
+    const frames = channelCount > 0 ? channels[0].length : 0;
+    const bytesPerSample = encoding === 'pcm16' ? 2 : 4;
+    const blockAlign = channelCount * bytesPerSample;
+    const dataLength = frames * blockAlign;
+
+    const buffer = new ArrayBuffer(44 + dataLength);
+    const view = new DataView(buffer);
+    writeTag(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    writeTag(view, 8, 'WAVE');
+
+    writeTag(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, encoding === 'pcm16' ? FORMAT_PCM : FORMAT_FLOAT, true);
+    view.setUint16(22, channelCount, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bytesPerSample * 8, true);
+
+    writeTag(view, 36, 'data');
+    view.setUint32(40, dataLength, true);
+
+    let p = 44;
+    for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < channelCount; c++) {
+            const value = channels[c][i];
+            if (encoding === 'pcm16') {
+                const clipped = Math.max(-1, Math.min(1, value));
+                view.setInt16(p, Math.round(clipped < 0 ? clipped * 32768 : clipped * 32767), true);
+            } else {
+                view.setFloat32(p, value, true);
+            }
+            p += bytesPerSample;
+        }
+    }
+    return buffer;
+};